@@ -24,12 +24,15 @@ export function loadVaultConfig(allowedDirectories: string[]): VaultConfig {
     maxSearchResults: 10,
     templaterLite: true,
     wikilinkResolution: false,
+    maxEmbedDepth: 5,
     fuzzyThreshold: 0.6,
     strictVariables: false,
     defaultDateFormat: 'YYYY-MM-DD',
     // Prompt discovery thresholds
     promptFuzzyMatchThreshold: 0.3,
     promptSuggestionThreshold: 0.2,
+    promptSearchDepth: 5,
+    promptIgnorePatterns: ['.obsidian', '.trash', 'archive'],
   };
 
   // Try to find vault config file in any of the allowed directories
@@ -76,6 +79,8 @@ export function loadVaultConfig(allowedDirectories: string[]): VaultConfig {
     wikilinkResolution:
       vaultConfigFile.features?.wikilinkResolution ??
       defaultConfig.wikilinkResolution,
+    maxEmbedDepth:
+      vaultConfigFile.features?.maxEmbedDepth ?? defaultConfig.maxEmbedDepth,
     maxSearchResults:
       vaultConfigFile.search?.maxResults || defaultConfig.maxSearchResults,
     fuzzyThreshold:
@@ -93,6 +98,12 @@ export function loadVaultConfig(allowedDirectories: string[]): VaultConfig {
     promptSuggestionThreshold:
       vaultConfigFile.search?.promptSuggestionThreshold ??
       defaultConfig.promptSuggestionThreshold,
+    promptSearchDepth:
+      vaultConfigFile.search?.promptSearchDepth ??
+      defaultConfig.promptSearchDepth,
+    promptIgnorePatterns:
+      vaultConfigFile.search?.promptIgnorePatterns ??
+      defaultConfig.promptIgnorePatterns,
   };
 
   console.error(`✓ Vault: ${vaultConfigFile.vault?.name || 'unnamed'}`);
@@ -9,7 +9,16 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 
@@ -21,15 +30,25 @@ import {
   getFileStats,
   readFileContent,
   writeFileContent,
-  // applyFileEdits, // TODO: Will be used for edit_file functionality
+  headFile,
+  tailFile,
+  applyFileEdits,
   formatSize,
 } from '@modelcontextprotocol/server-filesystem/dist/lib.js';
 
-import { VaultConfig } from './types.js';
+import { VaultConfig, EnhancedMcpError, PromptHit } from './types.js';
 import { ObsidianUtils } from './obsidian.js';
 import { PromptManager } from './prompts.js';
 import { TaskManager } from './tasks.js';
 import { TemplateProcessor } from './templates.js';
+import { VaultIndex } from './vault.js';
+import { ResourceManager } from './resources.js';
+import { walkDirectory, matchesPattern, searchContent } from './search.js';
+import { validateVaultPath, validateRealPath } from './security.js';
+
+// Items per prompts/list and resources/list page
+const MCP_PROMPTS_PAGE_SIZE = 100;
+const MCP_RESOURCES_PAGE_SIZE = 100;
 
 /**
  * EnhancedFilesystemServer extends the canonical filesystem server
@@ -37,6 +56,8 @@ import { TemplateProcessor } from './templates.js';
  */
 export class EnhancedFilesystemServer {
   private obsidianUtils: ObsidianUtils;
+  private vaultIndex: VaultIndex;
+  private resourceManager: ResourceManager;
   private promptManager: PromptManager;
   private taskManager: TaskManager;
   private templateProcessor: TemplateProcessor;
@@ -47,9 +68,19 @@ export class EnhancedFilesystemServer {
 
     // Initialize enhanced subsystems
     this.obsidianUtils = new ObsidianUtils(config);
-    this.promptManager = new PromptManager(config, this.obsidianUtils);
-    this.taskManager = new TaskManager(config, this.obsidianUtils);
+    this.vaultIndex = new VaultIndex(config, this.obsidianUtils);
+    this.promptManager = new PromptManager(
+      config,
+      this.obsidianUtils,
+      this.vaultIndex
+    );
+    this.taskManager = new TaskManager(
+      config,
+      this.obsidianUtils,
+      this.promptManager
+    );
     this.templateProcessor = new TemplateProcessor(config);
+    this.resourceManager = new ResourceManager(config, this.vaultIndex);
   }
 
   /**
@@ -70,11 +101,77 @@ export class EnhancedFilesystemServer {
           includeWikilinks: z.boolean().optional().default(false),
           processTemplater: z.boolean().optional().default(true),
           searchPaths: z.array(z.string()).optional(),
-          strictVariables: z.boolean().optional().default(false),
+          strictVariables: z
+            .boolean()
+            .optional()
+            .describe(
+              "Fail instead of warning when a variable doesn't match its declared type or options (defaults to the vault setting)"
+            ),
+          searchMode: z
+            .enum(['auto', 'exact', 'alias', 'fuzzy', 'content', 'path'])
+            .optional()
+            .default('auto')
+            .describe(
+              'Restrict discovery to one strategy; auto tries them in order'
+            ),
+          returnCandidates: z
+            .boolean()
+            .optional()
+            .default(false)
+            .describe('Also list the other ranked matches'),
+          maxCandidates: z
+            .number()
+            .int()
+            .min(1)
+            .optional()
+            .default(5)
+            .describe('Maximum number of ranked matches to list'),
+          resolveWikilinks: z
+            .union([
+              z.boolean(),
+              z.object({
+                mode: z.enum(['markdown', 'path']).optional(),
+                embed: z
+                  .boolean()
+                  .optional()
+                  .describe('Inline ![[embedded]] notes (default true)'),
+              }),
+            ])
+            .optional()
+            .describe(
+              'Resolve [[wikilinks]] to markdown links (default) or vault paths'
+            ),
         })
         .optional(),
     });
 
+    const ListPromptsArgsSchema = z.object({
+      folder: z
+        .string()
+        .optional()
+        .describe('Only list prompts in this folder of the prompt library'),
+      tags: z
+        .array(z.string())
+        .optional()
+        .describe('Only list prompts carrying all of these tags'),
+      searchPaths: z.array(z.string()).optional(),
+      offset: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .default(0)
+        .describe('Number of prompts to skip'),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .default(20)
+        .describe('Maximum number of prompts to return'),
+    });
+
     const CreateTaskArgsSchema = z.object({
       name: z.string().describe('Task name'),
       description: z.string().describe('Task description'),
@@ -82,6 +179,38 @@ export class EnhancedFilesystemServer {
       metadata: z.record(z.any()).optional().describe('Task metadata'),
     });
 
+    const SearchContentArgsSchema = z.object({
+      query: z.string().describe('Text or regular expression to search for'),
+      regex: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('Treat the query as a regular expression'),
+      caseSensitive: z.boolean().optional().default(false),
+      folder: z
+        .string()
+        .optional()
+        .describe('Vault-relative folder to limit the search to'),
+      tags: z
+        .array(z.string())
+        .optional()
+        .describe('Only search notes carrying all of these tags'),
+      contextLines: z
+        .number()
+        .int()
+        .min(0)
+        .max(10)
+        .optional()
+        .default(1)
+        .describe('Lines of context to include around each hit'),
+      maxResults: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe('Maximum number of hits to return'),
+    });
+
     // Register tool listing handler that includes ALL tools
     server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
@@ -90,7 +219,7 @@ export class EnhancedFilesystemServer {
           {
             name: 'read_text_file',
             description:
-              'Read the complete contents of a file from the file system as text. Only works within allowed directories.',
+              'Read the complete contents of a file from the file system as text. Use head or tail for the first or last N lines, or offset and limit to page through a line range. Only works within allowed directories.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -105,6 +234,16 @@ export class EnhancedFilesystemServer {
                   description:
                     'If provided, returns only the first N lines of the file',
                 },
+                offset: {
+                  type: 'number',
+                  description:
+                    'Line number to start reading from (1-based), for paging through large files',
+                },
+                limit: {
+                  type: 'number',
+                  description:
+                    'Maximum number of lines to return when reading from offset',
+                },
               },
               required: ['path'],
             },
@@ -122,6 +261,41 @@ export class EnhancedFilesystemServer {
               required: ['path', 'content'],
             },
           },
+          {
+            name: 'edit_file',
+            description:
+              'Make line-based edits to a text file. Each edit replaces an exact oldText with newText; every oldText must match exactly once. Use dryRun to preview the changes as a git-style unified diff. Only works within allowed directories.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                path: { type: 'string' },
+                edits: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      oldText: {
+                        type: 'string',
+                        description:
+                          'Text to search for - must match exactly once',
+                      },
+                      newText: {
+                        type: 'string',
+                        description: 'Text to replace with',
+                      },
+                    },
+                    required: ['oldText', 'newText'],
+                  },
+                },
+                dryRun: {
+                  type: 'boolean',
+                  default: false,
+                  description: 'Preview changes using git-style diff format',
+                },
+              },
+              required: ['path', 'edits'],
+            },
+          },
           {
             name: 'list_directory',
             description:
@@ -137,7 +311,7 @@ export class EnhancedFilesystemServer {
           {
             name: 'search_files',
             description:
-              'Recursively search for files and directories matching a pattern. Only searches within allowed directories.',
+              'Recursively search for files and directories matching a pattern. Plain patterns match names case-insensitively as substrings; glob patterns (*, **, ?, [abc], {a,b}) match names, or relative paths when they contain a slash. Only searches within allowed directories.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -147,6 +321,8 @@ export class EnhancedFilesystemServer {
                   type: 'array',
                   items: { type: 'string' },
                   default: [],
+                  description:
+                    'Folder/file names or glob patterns to skip (e.g. .obsidian, **/*.canvas)',
                 },
               },
               required: ['path', 'pattern'],
@@ -182,6 +358,18 @@ export class EnhancedFilesystemServer {
               'Quickly and easily direct the LLM to a specific prompt file using natural language. Discovers prompts by name, substitutes variables, and returns the processed content for the LLM to work with.',
             inputSchema: zodToJsonSchema(GetPromptedArgsSchema),
           },
+          {
+            name: 'list_prompts',
+            description:
+              'Browse the prompt library: lists each prompt with its title, aliases, tags, description and declared prompt-vars. Supports folder and tag filters and offset/limit pagination.',
+            inputSchema: zodToJsonSchema(ListPromptsArgsSchema),
+          },
+          {
+            name: 'search_content',
+            description:
+              'Full-text search across .md and .txt notes in the vault. Supports literal or regex queries, folder and tag filters, and returns ranked hits with file path, line number and a context snippet.',
+            inputSchema: zodToJsonSchema(SearchContentArgsSchema),
+          },
           {
             name: 'create_task',
             description:
@@ -201,7 +389,8 @@ export class EnhancedFilesystemServer {
                 },
                 updates: {
                   type: 'object',
-                  description: 'Checklist updates as item_text: boolean pairs',
+                  description:
+                    'Checklist updates keyed by 1-based item number or item text (matched exactly, by substring, then fuzzily), with true to check and false to uncheck',
                   additionalProperties: { type: 'boolean' },
                 },
               },
@@ -211,7 +400,7 @@ export class EnhancedFilesystemServer {
           {
             name: 'get_task_status',
             description:
-              'Get comprehensive task status including completion metrics and next actions.',
+              'Get comprehensive task status including completion metrics (counting nested items), next actions, and blockers from unfinished dependencies or #blocked items.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -219,6 +408,11 @@ export class EnhancedFilesystemServer {
                   type: 'string',
                   description: 'Name of the task to analyze',
                 },
+                maxNextActions: {
+                  type: 'number',
+                  description: 'Maximum number of next actions to list',
+                  default: 3,
+                },
               },
               required: ['taskName'],
             },
@@ -226,7 +420,7 @@ export class EnhancedFilesystemServer {
           {
             name: 'link_task_to_prompt',
             description:
-              'Create bidirectional links between tasks and prompts with relationship tracking.',
+              'Create bidirectional links between tasks and prompts with relationship tracking. Adds a prompts: entry to the task and a tasks: backreference to the prompt frontmatter.',
             inputSchema: {
               type: 'object',
               properties: {
@@ -244,6 +438,21 @@ export class EnhancedFilesystemServer {
               required: ['taskName', 'promptName'],
             },
           },
+          {
+            name: 'find_tasks_for_prompt',
+            description:
+              'Reverse lookup: list the tasks that link to a prompt via their prompts frontmatter, with the relationship of each link.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                promptName: {
+                  type: 'string',
+                  description: 'Name of the prompt',
+                },
+              },
+              required: ['promptName'],
+            },
+          },
         ],
       };
     });
@@ -258,6 +467,8 @@ export class EnhancedFilesystemServer {
           return await this.handleReadTextFile(args);
         case 'write_file':
           return await this.handleWriteFile(args);
+        case 'edit_file':
+          return await this.handleEditFile(args);
         case 'list_directory':
           return await this.handleListDirectory(args);
         case 'search_files':
@@ -270,6 +481,10 @@ export class EnhancedFilesystemServer {
         // ENHANCED OBSIDIAN-AWARE TOOLS
         case 'get_prompted':
           return await this.handleGetPrompted(args);
+        case 'list_prompts':
+          return await this.handleListPrompts(args);
+        case 'search_content':
+          return await this.handleSearchContent(args);
         case 'create_task':
           return await this.handleCreateTask(args);
         case 'update_task_progress':
@@ -278,6 +493,8 @@ export class EnhancedFilesystemServer {
           return await this.handleGetTaskStatus(args);
         case 'link_task_to_prompt':
           return await this.handleLinkTaskToPrompt(args);
+        case 'find_tasks_for_prompt':
+          return await this.handleFindTasksForPrompt(args);
 
         default:
           throw new Error(`Unknown tool: ${name}`);
@@ -285,24 +502,131 @@ export class EnhancedFilesystemServer {
     });
   }
 
+  /**
+   * Serve vault prompt files as native MCP prompts (prompts/list and
+   * prompts/get), rendered through the getPrompted pipeline
+   */
+  async registerPrompts(server: Server): Promise<void> {
+    server.setRequestHandler(ListPromptsRequestSchema, async request => {
+      return await this.handleListMcpPrompts(request.params?.cursor);
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async request => {
+      return await this.handleGetMcpPrompt(
+        request.params.name,
+        request.params.arguments
+      );
+    });
+  }
+
+  /**
+   * Serve vault notes as `vault://` resources with change subscriptions
+   */
+  async registerResources(server: Server): Promise<void> {
+    server.setRequestHandler(ListResourcesRequestSchema, async request => {
+      return await this.handleListResources(request.params?.cursor);
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: this.resourceManager.listResourceTemplates(),
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async request => {
+      return {
+        contents: [await this.resourceManager.readResource(request.params.uri)],
+      };
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async request => {
+      await this.resourceManager.subscribe(request.params.uri, uri => {
+        server.sendResourceUpdated({ uri }).catch(error => {
+          console.error(`Failed to notify update of ${uri}:`, error);
+        });
+      });
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+      this.resourceManager.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
+
   // BASE FILESYSTEM TOOL HANDLERS (delegate to canonical server functions)
   private async handleReadTextFile(args: unknown) {
     const parsed = z
       .object({
         path: z.string(),
-        tail: z.number().optional(),
-        head: z.number().optional(),
+        tail: z.number().int().positive().optional(),
+        head: z.number().int().positive().optional(),
+        offset: z.number().int().positive().optional(),
+        limit: z.number().int().positive().optional(),
       })
       .parse(args);
 
+    const modes = [
+      parsed.head !== undefined,
+      parsed.tail !== undefined,
+      parsed.offset !== undefined || parsed.limit !== undefined,
+    ].filter(Boolean).length;
+    if (modes > 1) {
+      throw new Error(
+        'Specify only one of head, tail, or offset/limit when reading a file'
+      );
+    }
+
     const validPath = await validatePath(parsed.path);
-    const content = await readFileContent(validPath);
+
+    let content: string;
+    if (parsed.head !== undefined) {
+      content = await headFile(validPath, parsed.head);
+    } else if (parsed.tail !== undefined) {
+      content = await tailFile(validPath, parsed.tail);
+    } else if (parsed.offset !== undefined || parsed.limit !== undefined) {
+      content = await this.readLineRange(
+        validPath,
+        parsed.offset ?? 1,
+        parsed.limit
+      );
+    } else {
+      content = await readFileContent(validPath);
+    }
 
     return {
       content: [{ type: 'text', text: content }],
     };
   }
 
+  /**
+   * Stream a range of lines from a file, stopping as soon as the range is read
+   */
+  private async readLineRange(
+    filePath: string,
+    offset: number,
+    limit?: number
+  ): Promise<string> {
+    const stream = createReadStream(filePath, { encoding: 'utf-8' });
+    const reader = createInterface({ input: stream, crlfDelay: Infinity });
+    const lines: string[] = [];
+    let lineNumber = 0;
+
+    try {
+      for await (const line of reader) {
+        lineNumber++;
+        if (lineNumber < offset) continue;
+        lines.push(line);
+        if (limit !== undefined && lines.length >= limit) break;
+      }
+    } finally {
+      reader.close();
+      stream.destroy();
+    }
+
+    return lines.join('\n');
+  }
+
   private async handleWriteFile(args: unknown) {
     const parsed = z
       .object({
@@ -319,6 +643,76 @@ export class EnhancedFilesystemServer {
     };
   }
 
+  private async handleEditFile(args: unknown) {
+    const parsed = z
+      .object({
+        path: z.string(),
+        edits: z.array(
+          z.object({
+            oldText: z.string().min(1),
+            newText: z.string(),
+          })
+        ),
+        dryRun: z.boolean().optional().default(false),
+      })
+      .parse(args);
+
+    const validPath = await validatePath(parsed.path);
+    const content = await readFileContent(validPath);
+    this.assertUniqueEditMatches(content, parsed.edits);
+
+    // applyFileEdits uses String.replace, which would expand $$, $& and $`
+    // in newText; escape them so Obsidian math like $$x^2$$ is kept as is
+    const edits = parsed.edits.map(edit => ({
+      oldText: edit.oldText,
+      newText: edit.newText.replace(/\$/g, '$$$$'),
+    }));
+    const diff = await applyFileEdits(validPath, edits, parsed.dryRun);
+
+    return {
+      content: [{ type: 'text', text: diff }],
+    };
+  }
+
+  /**
+   * Ensure each edit's oldText occurs exactly once at the point it is applied,
+   * so an edit never lands on the wrong occurrence in a live note
+   */
+  private assertUniqueEditMatches(
+    content: string,
+    edits: Array<{ oldText: string; newText: string }>
+  ): void {
+    let working = content.replace(/\r\n/g, '\n');
+
+    edits.forEach((edit, index) => {
+      const oldText = edit.oldText.replace(/\r\n/g, '\n');
+      const newText = edit.newText.replace(/\r\n/g, '\n');
+
+      let count = 0;
+      let position = working.indexOf(oldText);
+      const firstMatch = position;
+      while (position !== -1) {
+        count++;
+        position = working.indexOf(oldText, position + oldText.length);
+      }
+
+      if (count !== 1) {
+        const problem =
+          count === 0
+            ? 'was not found'
+            : `matches ${count} times; include more surrounding text to make it unique`;
+        throw new Error(
+          `Edit ${index + 1} failed: oldText ${problem}:\n${edit.oldText}`
+        );
+      }
+
+      working =
+        working.slice(0, firstMatch) +
+        newText +
+        working.slice(firstMatch + oldText.length);
+    });
+  }
+
   private async handleListDirectory(args: unknown) {
     const parsed = z
       .object({
@@ -339,10 +733,46 @@ export class EnhancedFilesystemServer {
     };
   }
 
-  private async handleSearchFiles(_args: unknown) {
-    // TODO: Implement file search functionality
+  private async handleSearchFiles(args: unknown) {
+    const parsed = z
+      .object({
+        path: z.string(),
+        pattern: z.string(),
+        excludePatterns: z.array(z.string()).optional().default([]),
+      })
+      .parse(args);
+
+    const validPath = await validatePath(parsed.path);
+    const stats = await getFileStats(validPath);
+    if (!stats.isDirectory) {
+      throw new Error(`Search root is not a directory: ${parsed.path}`);
+    }
+
+    const maxResults = this.config.maxSearchResults;
+    const results: string[] = [];
+    let truncated = false;
+
+    for await (const entry of walkDirectory(validPath, {
+      allowedDirectories: this.config.allowedDirectories,
+      excludePatterns: parsed.excludePatterns,
+    })) {
+      if (!matchesPattern(entry.relativePath, entry.name, parsed.pattern)) {
+        continue;
+      }
+      if (results.length >= maxResults) {
+        truncated = true;
+        break;
+      }
+      results.push(entry.path);
+    }
+
+    let text = results.length > 0 ? results.join('\n') : 'No matches found';
+    if (truncated) {
+      text += `\n\nResults limited to ${maxResults} matches. Refine the pattern to see more.`;
+    }
+
     return {
-      content: [{ type: 'text', text: 'search_files: Implementation pending' }],
+      content: [{ type: 'text', text }],
     };
   }
 
@@ -395,7 +825,25 @@ export class EnhancedFilesystemServer {
               includeWikilinks: z.boolean().optional().default(false),
               processTemplater: z.boolean().optional().default(true),
               searchPaths: z.array(z.string()).optional(),
-              strictVariables: z.boolean().optional().default(false),
+              strictVariables: z.boolean().optional(),
+              searchMode: z
+                .enum(['auto', 'exact', 'alias', 'fuzzy', 'content', 'path'])
+                .optional()
+                .default('auto'),
+              returnCandidates: z.boolean().optional().default(false),
+              maxCandidates: z.number().int().min(1).optional().default(5),
+              resolveWikilinks: z
+                .union([
+                  z.boolean(),
+                  z.object({
+                    mode: z
+                      .enum(['markdown', 'path'])
+                      .optional()
+                      .default('markdown'),
+                    embed: z.boolean().optional(),
+                  }),
+                ])
+                .optional(),
             })
             .optional()
             .default({}),
@@ -411,12 +859,55 @@ export class EnhancedFilesystemServer {
 
       // Format response - simple and focused
       if (result.resolved) {
-        // Just return the processed prompt content
+        // Return the processed prompt content, noting any broken links
+        const content = [
+          {
+            type: 'text' as const,
+            text: result.content,
+          },
+        ];
+        if (result.unresolvedLinks.length > 0) {
+          content.push({
+            type: 'text' as const,
+            text: `⚠️ Unresolved wikilinks: ${result.unresolvedLinks.join(', ')}`,
+          });
+        }
+        if (result.warnings && result.warnings.length > 0) {
+          content.push({
+            type: 'text' as const,
+            text: `⚠️ Variable warnings:\n${result.warnings.map(warning => `- ${warning}`).join('\n')}`,
+          });
+        }
+        if (result.matchedBy && result.matchedBy !== 'exact') {
+          content.push({
+            type: 'text' as const,
+            text: `ℹ️ Matched '${result.chosen?.path}' by ${result.matchedBy} search`,
+          });
+        }
+        if (result.candidates.length > 0) {
+          content.push({
+            type: 'text' as const,
+            text: `Ranked matches:\n${this.formatPromptCandidates(result.candidates)}`,
+          });
+        }
+
+        return { content };
+      } else if (
+        result.error?.code === 'ambiguous_prompt' &&
+        result.candidates.length > 0
+      ) {
+        // Let the LLM pick (or ask the user) instead of guessing
         return {
           content: [
             {
               type: 'text' as const,
-              text: result.content,
+              text: [
+                `❓ Several prompts match '${parsed.promptName}':`,
+                '',
+                this.formatPromptCandidates(result.candidates),
+                '',
+                'Call get_prompted again with one of these names.',
+              ].join('\n'),
             },
           ],
         };
@@ -448,49 +939,428 @@ export class EnhancedFilesystemServer {
     }
   }
 
-  private async handleCreateTask(_args: unknown) {
-    // Implementation will go here
-    return {
-      content: [
+  private async handleListPrompts(args: unknown) {
+    try {
+      const parsed = z
+        .object({
+          folder: z.string().optional(),
+          tags: z.array(z.string()).optional(),
+          searchPaths: z.array(z.string()).optional(),
+          offset: z.number().int().min(0).optional().default(0),
+          limit: z.number().int().min(1).max(100).optional().default(20),
+        })
+        .parse(args);
+
+      const { prompts, total } = await this.promptManager.listPrompts(parsed);
+
+      if (prompts.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text:
+                total > 0
+                  ? `No prompts past offset ${parsed.offset} (${total} total)`
+                  : 'No prompts found',
+            },
+          ],
+        };
+      }
+
+      const body = prompts
+        .map(prompt => {
+          const fileName = prompt.name.split('/').pop();
+          const lines = [
+            `## ${prompt.name}${prompt.title !== fileName ? ` - ${prompt.title}` : ''}`,
+          ];
+          if (prompt.description) lines.push(prompt.description);
+          if (prompt.aliases.length > 0) {
+            lines.push(`Aliases: ${prompt.aliases.join(', ')}`);
+          }
+          if (prompt.tags.length > 0) {
+            lines.push(`Tags: ${prompt.tags.join(', ')}`);
+          }
+          if (prompt.variables.length > 0) {
+            const variables = prompt.variables.map(
+              spec =>
+                `${spec.name} (${spec.type}, ${spec.required ? 'required' : 'optional'})`
+            );
+            lines.push(`Variables: ${variables.join(', ')}`);
+          }
+          return lines.join('\n');
+        })
+        .join('\n\n');
+
+      const end = parsed.offset + prompts.length;
+      const header = `Prompts ${parsed.offset + 1}-${end} of ${total}`;
+      const footer =
+        end < total ? `\n\nUse offset ${end} to see more prompts.` : '';
+
+      return {
+        content: [
+          { type: 'text' as const, text: `${header}\n\n${body}${footer}` },
+        ],
+      };
+    } catch (error: any) {
+      return this.formatToolError(error);
+    }
+  }
+
+  private async handleSearchContent(args: unknown) {
+    try {
+      const parsed = z
+        .object({
+          query: z.string().min(1),
+          regex: z.boolean().optional().default(false),
+          caseSensitive: z.boolean().optional().default(false),
+          folder: z.string().optional(),
+          tags: z.array(z.string()).optional(),
+          contextLines: z.number().int().min(0).max(10).optional().default(1),
+          maxResults: z.number().int().positive().optional(),
+        })
+        .parse(args);
+
+      const roots = parsed.folder
+        ? [
+            await validateRealPath(
+              validateVaultPath(
+                parsed.folder,
+                this.config.allowedDirectories[0],
+                this.config.allowedDirectories
+              ),
+              this.config.allowedDirectories
+            ),
+          ]
+        : this.config.allowedDirectories;
+
+      const { hits, totalHits, filesMatched } = await searchContent(
+        roots,
+        parsed.query,
         {
-          type: 'text',
-          text: 'create_task: Implementation pending',
+          allowedDirectories: this.config.allowedDirectories,
+          regex: parsed.regex,
+          caseSensitive: parsed.caseSensitive,
+          tags: parsed.tags,
+          contextLines: parsed.contextLines,
+          maxResults: parsed.maxResults ?? this.config.maxSearchResults,
         },
-      ],
+        this.obsidianUtils
+      );
+
+      if (hits.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: `No matches found for '${parsed.query}'`,
+            },
+          ],
+        };
+      }
+
+      const header =
+        `Found ${totalHits} matches in ${filesMatched} files for '${parsed.query}'` +
+        (totalHits > hits.length ? ` (showing top ${hits.length})` : '');
+      const body = hits
+        .map(
+          hit =>
+            `${hit.path}:${hit.line} (${hit.title}, score ${hit.score.toFixed(2)})\n${hit.snippet}`
+        )
+        .join('\n\n');
+
+      return {
+        content: [{ type: 'text' as const, text: `${header}\n\n${body}` }],
+      };
+    } catch (error: any) {
+      return this.formatToolError(error);
+    }
+  }
+
+  private async handleCreateTask(args: unknown) {
+    try {
+      const parsed = z
+        .object({
+          name: z.string().min(1),
+          description: z.string(),
+          checklist: z.array(z.string()),
+          metadata: z.record(z.any()).optional().default({}),
+        })
+        .parse(args);
+
+      const taskPath = await this.taskManager.createTask(
+        parsed.name,
+        parsed.description,
+        parsed.checklist,
+        parsed.metadata
+      );
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `✅ Created task '${parsed.name}' with ${parsed.checklist.length} checklist items at ${taskPath}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return this.formatToolError(error);
+    }
+  }
+
+  private async handleUpdateTaskProgress(args: unknown) {
+    try {
+      const parsed = z
+        .object({
+          taskName: z.string().min(1),
+          updates: z.record(z.boolean()),
+        })
+        .parse(args);
+
+      const progress = await this.taskManager.updateTaskProgress(
+        parsed.taskName,
+        parsed.updates
+      );
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text:
+              `✅ Updated ${Object.keys(parsed.updates).length} checklist items in '${parsed.taskName}'\n` +
+              `Progress: ${progress.completedItems}/${progress.totalItems} (${Math.round(progress.completionPercentage)}%)`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return this.formatToolError(error);
+    }
+  }
+
+  private async handleGetTaskStatus(args: unknown) {
+    try {
+      const parsed = z
+        .object({
+          taskName: z.string().min(1),
+          maxNextActions: z.number().int().positive().optional().default(3),
+        })
+        .parse(args);
+
+      const status = await this.taskManager.getTaskStatus(
+        parsed.taskName,
+        parsed.maxNextActions
+      );
+
+      const formatList = (items: string[]) =>
+        items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '- None';
+
+      const text =
+        `# Task Status: ${parsed.taskName}\n\n` +
+        `Progress: ${status.completedItems}/${status.totalItems} (${Math.round(status.completionPercentage)}%)\n` +
+        `Last updated: ${status.lastUpdated.toISOString()}\n\n` +
+        `## Next Actions\n${formatList(status.nextActions)}\n\n` +
+        `## Blockers\n${formatList(status.blockers)}`;
+
+      return {
+        content: [{ type: 'text' as const, text }],
+      };
+    } catch (error: any) {
+      return this.formatToolError(error);
+    }
+  }
+
+  private async handleLinkTaskToPrompt(args: unknown) {
+    try {
+      const parsed = z
+        .object({
+          taskName: z.string().min(1),
+          promptName: z.string().min(1),
+          relationship: z.string().min(1).optional().default('uses'),
+        })
+        .parse(args);
+
+      const { taskPath, promptPath } = await this.taskManager.linkTaskToPrompt(
+        parsed.taskName,
+        parsed.promptName,
+        parsed.relationship
+      );
+
+      return {
+        content: [
+          {
+            type: 'text' as const,
+            text: `✅ Linked task ${taskPath} to prompt ${promptPath} (${parsed.relationship})`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return this.formatToolError(error);
+    }
+  }
+
+  private async handleFindTasksForPrompt(args: unknown) {
+    try {
+      const parsed = z
+        .object({
+          promptName: z.string().min(1),
+        })
+        .parse(args);
+
+      const tasks = await this.taskManager.findTasksForPrompt(
+        parsed.promptName
+      );
+
+      const text =
+        tasks.length > 0
+          ? `Tasks linked to '${parsed.promptName}':\n` +
+            tasks
+              .map(
+                task => `- ${task.task} (${task.relationship}): ${task.path}`
+              )
+              .join('\n')
+          : `No tasks link to '${parsed.promptName}'`;
+
+      return {
+        content: [{ type: 'text' as const, text }],
+      };
+    } catch (error: any) {
+      return this.formatToolError(error);
+    }
+  }
+
+  // MCP PROMPT HANDLERS
+
+  /**
+   * List prompt files as MCP prompts, paginated with an offset cursor
+   *
+   * A name found in several search paths is listed once, for the first
+   * search path, since MCP prompt names must be unique.
+   */
+  private async handleListMcpPrompts(cursor?: string) {
+    const offset = cursor ? Number.parseInt(cursor, 10) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error(`Invalid cursor: ${cursor}`);
+    }
+
+    const { prompts, total } = await this.promptManager.listPrompts({
+      offset,
+      limit: MCP_PROMPTS_PAGE_SIZE,
+      uniqueNames: true,
+    });
+    const end = offset + prompts.length;
+
+    return {
+      prompts: prompts.map(prompt => ({
+        name: prompt.name,
+        title: prompt.title,
+        description: prompt.description,
+        arguments: prompt.variables.map(spec => ({
+          name: spec.name,
+          description: spec.description
+            ? `${spec.description} (${spec.type})`
+            : spec.type,
+          required: spec.required,
+        })),
+      })),
+      ...(end < total ? { nextCursor: String(end) } : {}),
     };
   }
 
-  private async handleUpdateTaskProgress(_args: unknown) {
-    // Implementation will go here
+  /**
+   * Render a prompt file by its listed name as a single user message
+   */
+  private async handleGetMcpPrompt(
+    name: string,
+    args: Record<string, string> = {}
+  ) {
+    // Render the prompt listed under this name, not a same-named prompt in
+    // another search path
+    const { prompts } = await this.promptManager.listPrompts({
+      uniqueNames: true,
+    });
+    const listed = prompts.find(prompt => prompt.name === name);
+    const result = await this.promptManager.getPrompted(name, args, {
+      searchMode: 'path',
+      ...(listed ? { searchPaths: [listed.searchPath] } : {}),
+    });
+
+    if (!result.resolved) {
+      throw new Error(
+        result.error
+          ? `Error (${result.error.code}): ${result.error.message}`
+          : `Failed to process prompt '${name}'`
+      );
+    }
+
+    // getPrompted asks for missing variables in-band; MCP clients collect
+    // arguments up front, so report them as an error instead
+    if (!result.processing.variableInterpolation) {
+      const names = result.missingVariables.map(spec => spec.name);
+      throw new Error(
+        `Missing required arguments for prompt '${name}': ${names.join(', ')}`
+      );
+    }
+
     return {
-      content: [
+      description: result.chosen?.title,
+      messages: [
         {
-          type: 'text',
-          text: 'update_task_progress: Implementation pending',
+          role: 'user' as const,
+          content: { type: 'text' as const, text: result.content },
         },
       ],
     };
   }
 
-  private async handleGetTaskStatus(_args: unknown) {
-    // Implementation will go here
+  // MCP RESOURCE HANDLERS
+
+  /**
+   * List vault notes as resources, paginated with an offset cursor
+   */
+  private async handleListResources(cursor?: string) {
+    const offset = cursor ? Number.parseInt(cursor, 10) : 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error(`Invalid cursor: ${cursor}`);
+    }
+
+    const { resources, total } = await this.resourceManager.listResources(
+      offset,
+      MCP_RESOURCES_PAGE_SIZE
+    );
+    const end = offset + resources.length;
+
     return {
-      content: [
-        {
-          type: 'text',
-          text: 'get_task_status: Implementation pending',
-        },
-      ],
+      resources,
+      ...(end < total ? { nextCursor: String(end) } : {}),
     };
   }
 
-  private async handleLinkTaskToPrompt(_args: unknown) {
-    // Implementation will go here
+  /**
+   * Render ranked prompt hits as a numbered list
+   */
+  private formatPromptCandidates(candidates: PromptHit[]): string {
+    return candidates
+      .map((hit, index) => {
+        const title =
+          hit.title && hit.title !== hit.id ? ` - ${hit.title}` : '';
+        return `${index + 1}. ${hit.name}${title} (${hit.reason}, score ${hit.score.toFixed(2)})`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Format an error from an enhanced tool for display to the LLM
+   */
+  private formatToolError(error: any) {
+    const message =
+      error instanceof EnhancedMcpError
+        ? `Error (${error.code}): ${error.message}`
+        : `Invalid request: ${error.message}`;
+
     return {
       content: [
         {
-          type: 'text',
-          text: 'link_task_to_prompt: Implementation pending',
+          type: 'text' as const,
+          text: `❌ ${message}`,
         },
       ],
     };
@@ -52,12 +52,16 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      prompts: {},
+      resources: { subscribe: true },
     },
   }
 );
 
-// Register enhanced tools
+// Register enhanced tools, vault prompts and note resources
 await enhancedServer.registerTools(server);
+await enhancedServer.registerPrompts(server);
+await enhancedServer.registerResources(server);
 
 // Start server
 async function main() {
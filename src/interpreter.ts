@@ -0,0 +1,1000 @@
+/**
+ * Sandboxed Templater interpreter
+ *
+ * Renders `<% %>` output tags, `<% if %>` / `<% for %>` control flow and
+ * `<%* %>` execution blocks without `eval`. Expressions are parsed with a
+ * small whitelisted grammar (literals, variables, property access, calls,
+ * arithmetic, comparison, logical and ternary operators) and evaluated
+ * against an explicit scope, so templates can only read the variables and
+ * helper functions they are given.
+ */
+
+import { EnhancedMcpError } from './types.js';
+
+// Methods templates may call on strings and arrays; none take callbacks
+const SAFE_METHODS: Record<string, string[]> = {
+  string: [
+    'includes',
+    'startsWith',
+    'endsWith',
+    'indexOf',
+    'slice',
+    'split',
+    'trim',
+    'toLowerCase',
+    'toUpperCase',
+    'padStart',
+    'padEnd',
+    'repeat',
+  ],
+  array: ['includes', 'indexOf', 'join', 'slice', 'concat'],
+  number: ['toFixed'],
+};
+// Longest string repeat, padStart and padEnd may build, so a template
+// can't exhaust the server's memory
+const MAX_STRING_LENGTH = 1_000_000;
+const BLOCKED_PROPERTIES = ['__proto__', 'prototype', 'constructor'];
+// Execution blocks append to the output by assigning to `tR`, as in Templater
+const OUTPUT_VARIABLE = 'tR';
+
+type Expression =
+  | { type: 'literal'; value: any }
+  | { type: 'identifier'; name: string }
+  | { type: 'array'; items: Expression[] }
+  | {
+      type: 'member';
+      object: Expression;
+      property: Expression;
+      optional: boolean;
+    }
+  | { type: 'call'; callee: Expression; args: Expression[] }
+  | { type: 'unary'; operator: string; argument: Expression }
+  | { type: 'binary'; operator: string; left: Expression; right: Expression }
+  | {
+      type: 'conditional';
+      test: Expression;
+      consequent: Expression;
+      alternate: Expression;
+    };
+
+interface Assignment {
+  name: string;
+  operator: '=' | '+=' | '-=';
+  declare: boolean;
+  value: Expression;
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'output'; expression: Expression }
+  | { type: 'exec'; assignments: Assignment[] }
+  | {
+      type: 'if';
+      branches: { test: Expression | null; body: TemplateNode[] }[];
+    }
+  | { type: 'for'; name: string; iterable: Expression; body: TemplateNode[] };
+
+interface Tag {
+  code: string;
+  exec: boolean;
+  line: number;
+}
+
+/**
+ * A variable as seen from some point in a template. Computed variables
+ * were assigned in <%* %> blocks or bound by for loops.
+ */
+export interface ScopeValue {
+  found: boolean;
+  value: any;
+  computed: boolean;
+}
+
+export interface RenderOptions {
+  // Render the literal text between tags, e.g. to fill {{placeholders}}.
+  // Tag output is never passed through it, so values aren't re-scanned.
+  renderText?: (text: string, lookup: (name: string) => ScopeValue) => string;
+  // Called whenever an expression reads one of the given variables
+  onRead?: (name: string) => void;
+}
+
+/**
+ * Render a template's Templater tags against a scope of variables and
+ * helper objects
+ */
+export function renderTemplate(
+  content: string,
+  scope: Record<string, any>,
+  options: RenderOptions = {}
+): string {
+  return renderNodes(parseTemplate(content), new Scope(scope, null, options));
+}
+
+/**
+ * Evaluate a single expression, e.g. `session_type === 'intake'`
+ */
+export function evaluateExpression(
+  source: string,
+  scope: Record<string, any>
+): any {
+  return evaluate(parseExpression(source), new Scope(scope));
+}
+
+/**
+ * Variables a template reads from its scope: identifiers in tags that are
+ * not property names, string contents or bound by the template itself
+ */
+export function listTemplateVariables(content: string): string[] {
+  const names = new Set<string>();
+
+  const visitExpression = (
+    expression: Expression,
+    bound: Set<string>
+  ): void => {
+    switch (expression.type) {
+      case 'identifier':
+        if (!bound.has(expression.name)) names.add(expression.name);
+        break;
+      case 'array':
+        expression.items.forEach(item => visitExpression(item, bound));
+        break;
+      case 'member':
+        visitExpression(expression.object, bound);
+        visitExpression(expression.property, bound);
+        break;
+      case 'call':
+        visitExpression(expression.callee, bound);
+        expression.args.forEach(arg => visitExpression(arg, bound));
+        break;
+      case 'unary':
+        visitExpression(expression.argument, bound);
+        break;
+      case 'binary':
+        visitExpression(expression.left, bound);
+        visitExpression(expression.right, bound);
+        break;
+      case 'conditional':
+        visitExpression(expression.test, bound);
+        visitExpression(expression.consequent, bound);
+        visitExpression(expression.alternate, bound);
+        break;
+    }
+  };
+
+  const visitNodes = (nodes: TemplateNode[], outer: Set<string>): void => {
+    const bound = new Set(outer);
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'output':
+          visitExpression(node.expression, bound);
+          break;
+        case 'exec':
+          for (const assignment of node.assignments) {
+            visitExpression(assignment.value, bound);
+            if (assignment.operator !== '=' && !bound.has(assignment.name)) {
+              names.add(assignment.name);
+            }
+            bound.add(assignment.name);
+          }
+          break;
+        case 'if':
+          for (const branch of node.branches) {
+            if (branch.test) visitExpression(branch.test, bound);
+            visitNodes(branch.body, bound);
+          }
+          break;
+        case 'for':
+          visitExpression(node.iterable, bound);
+          visitNodes(node.body, new Set([...bound, node.name]));
+          break;
+      }
+    }
+  };
+
+  visitNodes(parseTemplate(content), new Set([OUTPUT_VARIABLE]));
+  return [...names];
+}
+
+// ---------------------------------------------------------------------------
+// Template parsing
+
+/**
+ * Split content into text and tags, applying whitespace control: `-`
+ * trims one adjacent newline and `_` trims all adjacent whitespace. A `<%`
+ * that is never closed is ordinary text, as in Templater.
+ */
+function tokenizeTemplate(content: string): (string | Tag)[] {
+  const parts: (string | Tag)[] = [];
+  let text = '';
+  let trimNext: string | null = null;
+  let index = 0;
+
+  const pushText = (value: string) => {
+    if (trimNext === '_') value = value.replace(/^\s+/, '');
+    if (trimNext === '-') value = value.replace(/^[ \t]*\r?\n/, '');
+    trimNext = null;
+    text += value;
+  };
+
+  while (index < content.length) {
+    const start = content.indexOf('<%', index);
+    if (start === -1) {
+      pushText(content.slice(index));
+      break;
+    }
+    pushText(content.slice(index, start));
+
+    const line = content.slice(0, start).split('\n').length;
+    let cursor = start + 2;
+    // Accept both `<%_*` and `<%*_` for trimmed execution blocks
+    let trimBefore: string | null = null;
+    let exec = false;
+    while (/[-_*]/.test(content[cursor] ?? '')) {
+      if (content[cursor] === '*') exec = true;
+      else trimBefore = content[cursor];
+      cursor++;
+      if (exec && trimBefore) break;
+    }
+
+    const end = findTagEnd(content, cursor);
+    if (end === -1) {
+      pushText(content.slice(start));
+      break;
+    }
+    let code = content.slice(cursor, end);
+    const trimAfter = /[-_]$/.test(code) ? code.slice(-1) : null;
+    if (trimAfter) code = code.slice(0, -1);
+
+    if (trimBefore === '_') text = text.replace(/\s+$/, '');
+    if (trimBefore === '-') text = text.replace(/\r?\n[ \t]*$/, '');
+    if (text) parts.push(text);
+    text = '';
+    parts.push({ code: code.trim(), exec, line });
+
+    trimNext = trimAfter;
+    index = end + 2;
+  }
+
+  if (text) parts.push(text);
+  return parts;
+}
+
+/**
+ * Find the closing `%>` of a tag, skipping over string literals
+ */
+function findTagEnd(content: string, from: number): number {
+  let quote: string | null = null;
+
+  for (let i = from; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '%' && content[i + 1] === '>') {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Build the node tree, matching `{` / `}` control tags into blocks
+ */
+function parseTemplate(content: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { node: TemplateNode; body: TemplateNode[]; line: number }[] =
+    [];
+  let body = root;
+
+  for (const part of tokenizeTemplate(content)) {
+    if (typeof part === 'string') {
+      body.push({ type: 'text', text: part });
+      continue;
+    }
+
+    const { code, exec, line } = part;
+    const parse = <T>(fn: () => T): T => {
+      try {
+        return fn();
+      } catch (error: any) {
+        throw syntaxError(error.message, line);
+      }
+    };
+
+    const ifMatch = code.match(/^if\s*\(([\s\S]*)\)\s*\{$/);
+    const elseMatch = code.match(/^\}\s*else(?:\s+if\s*\(([\s\S]*)\))?\s*\{$/);
+    const forMatch = code.match(
+      /^for\s*\(\s*(?:(?:const|let|var)\s+)?([A-Za-z_$][\w$]*)\s+of\s+([\s\S]*)\)\s*\{$/
+    );
+
+    if (ifMatch) {
+      const node: TemplateNode = {
+        type: 'if',
+        branches: [
+          { test: parse(() => parseExpression(ifMatch[1])), body: [] },
+        ],
+      };
+      body.push(node);
+      stack.push({ node, body, line });
+      body = node.branches[0].body;
+    } else if (forMatch) {
+      const node: TemplateNode = {
+        type: 'for',
+        name: forMatch[1],
+        iterable: parse(() => parseExpression(forMatch[2])),
+        body: [],
+      };
+      body.push(node);
+      stack.push({ node, body, line });
+      body = node.body;
+    } else if (elseMatch) {
+      const open = stack[stack.length - 1];
+      if (open?.node.type !== 'if') {
+        throw syntaxError('else without a matching if', line);
+      }
+      const branches = open.node.branches;
+      if (branches[branches.length - 1].test === null) {
+        throw syntaxError('else after the final else', line);
+      }
+      const test =
+        elseMatch[1] === undefined
+          ? null
+          : parse(() => parseExpression(elseMatch[1]));
+      branches.push({ test, body: [] });
+      body = branches[branches.length - 1].body;
+    } else if (code === '}') {
+      const open = stack.pop();
+      if (!open) {
+        throw syntaxError('} without a matching if or for', line);
+      }
+      body = open.body;
+    } else if (exec) {
+      body.push({
+        type: 'exec',
+        assignments: parse(() => parseAssignments(code)),
+      });
+    } else if (code) {
+      body.push({
+        type: 'output',
+        expression: parse(() => parseExpression(code)),
+      });
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    throw syntaxError(`Unclosed ${open.node.type} block`, open.line);
+  }
+
+  return root;
+}
+
+/**
+ * Parse an execution block into assignments: `let x = expr`, `x = expr`,
+ * `x += expr` or `x -= expr`, separated by semicolons or newlines
+ */
+function parseAssignments(code: string): Assignment[] {
+  return splitStatements(code).map(statement => {
+    const match = statement.match(
+      /^(?:(const|let|var)\s+)?([A-Za-z_$][\w$]*)\s*(=|\+=|-=)(?!=)\s*([\s\S]+)$/
+    );
+    if (!match || (match[1] && match[3] !== '=')) {
+      throw new Error(
+        `Only assignments are allowed in <%* %> blocks, got: ${statement}`
+      );
+    }
+    if (match[2] === OUTPUT_VARIABLE && match[3] !== '+=') {
+      throw new Error(`${OUTPUT_VARIABLE} can only be appended to with +=`);
+    }
+
+    return {
+      name: match[2],
+      operator: match[3] as Assignment['operator'],
+      declare: Boolean(match[1]),
+      value: parseExpression(match[4]),
+    };
+  });
+}
+
+/**
+ * Split code on semicolons and newlines outside strings and brackets
+ */
+function splitStatements(code: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let depth = 0;
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+    if (quote) {
+      current += char;
+      if (char === '\\') current += code[++i] ?? '';
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'") quote = char;
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth--;
+    if (depth === 0 && (char === ';' || char === '\n')) {
+      statements.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  statements.push(current);
+
+  return statements.map(s => s.trim()).filter(s => s.length > 0);
+}
+
+function syntaxError(message: string, line: number): EnhancedMcpError {
+  return new EnhancedMcpError(
+    'template_syntax_error',
+    `Template syntax error on line ${line}: ${message}`,
+    { line }
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Expression parsing
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'punctuator';
+  value: string;
+}
+
+const PUNCTUATORS = [
+  '===',
+  '!==',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '??',
+  '?.',
+  '(',
+  ')',
+  '[',
+  ']',
+  ',',
+  '.',
+  '!',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '<',
+  '>',
+  '?',
+  ':',
+];
+
+// Binary operators from lowest to highest precedence
+const BINARY_PRECEDENCE: string[][] = [
+  ['??'],
+  ['||'],
+  ['&&'],
+  ['===', '!==', '==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+};
+
+function tokenizeExpression(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9]/.test(char)) {
+      const match = source.slice(i).match(/^\d+(?:\.\d+)?/)!;
+      tokens.push({ type: 'number', value: match[0] });
+      i += match[0].length;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\') {
+          i++;
+          value += ESCAPES[source[i]] ?? source[i];
+        } else {
+          value += source[i];
+        }
+        i++;
+      }
+      if (i >= source.length) throw new Error('Unterminated string');
+      tokens.push({ type: 'string', value });
+      i++;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match = source.slice(i).match(/^[A-Za-z_$][\w$]*/)!;
+      tokens.push({ type: 'identifier', value: match[0] });
+      i += match[0].length;
+    } else {
+      const punctuator = PUNCTUATORS.find(p => source.startsWith(p, i));
+      if (!punctuator) throw new Error(`Unexpected character '${char}'`);
+      tokens.push({ type: 'punctuator', value: punctuator });
+      i += punctuator.length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over the whitelisted grammar
+ */
+function parseExpression(source: string): Expression {
+  const tokens = tokenizeExpression(source);
+  let position = 0;
+
+  const peek = (value?: string): Token | undefined => {
+    const token = tokens[position];
+    if (value === undefined) return token;
+    return token?.type === 'punctuator' && token.value === value
+      ? token
+      : undefined;
+  };
+  const expect = (value: string) => {
+    if (!peek(value)) {
+      throw new Error(`Expected '${value}' in expression: ${source}`);
+    }
+    position++;
+  };
+
+  const parseConditional = (): Expression => {
+    const test = parseBinary(0);
+    if (!peek('?')) return test;
+    position++;
+    const consequent = parseConditional();
+    expect(':');
+    return {
+      type: 'conditional',
+      test,
+      consequent,
+      alternate: parseConditional(),
+    };
+  };
+
+  const parseBinary = (level: number): Expression => {
+    if (level >= BINARY_PRECEDENCE.length) return parseUnary();
+
+    let left = parseBinary(level + 1);
+    while (BINARY_PRECEDENCE[level].some(operator => peek(operator))) {
+      const operator = tokens[position++].value;
+      left = {
+        type: 'binary',
+        operator,
+        left,
+        right: parseBinary(level + 1),
+      };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Expression => {
+    if (peek('!') || peek('-') || peek('+')) {
+      const operator = tokens[position++].value;
+      return { type: 'unary', operator, argument: parseUnary() };
+    }
+    return parsePostfix(parsePrimary());
+  };
+
+  const parsePostfix = (expression: Expression): Expression => {
+    for (;;) {
+      if (peek('.') || peek('?.')) {
+        const optional = tokens[position++].value === '?.';
+        if (optional && peek('(')) {
+          throw new Error('Optional calls are not supported');
+        }
+        if (optional && peek('[')) {
+          position++;
+          const property = parseConditional();
+          expect(']');
+          expression = {
+            type: 'member',
+            object: expression,
+            property,
+            optional,
+          };
+          continue;
+        }
+        const name = tokens[position++];
+        if (name?.type !== 'identifier') {
+          throw new Error(`Expected a property name in expression: ${source}`);
+        }
+        expression = {
+          type: 'member',
+          object: expression,
+          property: { type: 'literal', value: name.value },
+          optional,
+        };
+      } else if (peek('[')) {
+        position++;
+        const property = parseConditional();
+        expect(']');
+        expression = {
+          type: 'member',
+          object: expression,
+          property,
+          optional: false,
+        };
+      } else if (peek('(')) {
+        position++;
+        const args = parseList(')');
+        expression = { type: 'call', callee: expression, args };
+      } else {
+        return expression;
+      }
+    }
+  };
+
+  const parseList = (close: string): Expression[] => {
+    const items: Expression[] = [];
+    while (!peek(close)) {
+      items.push(parseConditional());
+      if (!peek(close)) expect(',');
+    }
+    position++;
+    return items;
+  };
+
+  const parsePrimary = (): Expression => {
+    const token = tokens[position++];
+    if (!token) throw new Error(`Unexpected end of expression: ${source}`);
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        if (token.value === 'true') return { type: 'literal', value: true };
+        if (token.value === 'false') return { type: 'literal', value: false };
+        if (token.value === 'null') return { type: 'literal', value: null };
+        if (token.value === 'undefined') {
+          return { type: 'literal', value: undefined };
+        }
+        return { type: 'identifier', name: token.value };
+    }
+
+    if (token.value === '(') {
+      const expression = parseConditional();
+      expect(')');
+      return expression;
+    }
+    if (token.value === '[') {
+      return { type: 'array', items: parseList(']') };
+    }
+    throw new Error(`Unexpected '${token.value}' in expression: ${source}`);
+  };
+
+  if (tokens.length === 0) throw new Error('Empty expression');
+  const expression = parseConditional();
+  if (position < tokens.length) {
+    throw new Error(
+      `Unexpected '${tokens[position].value}' in expression: ${source}`
+    );
+  }
+  return expression;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+
+/**
+ * Variable scope; loops get a child scope for their loop variable
+ */
+class Scope {
+  private values: Map<string, any>;
+  // Root-scope names still holding the value they were given
+  private given: Set<string>;
+
+  constructor(
+    values: Record<string, any> = {},
+    private parent: Scope | null = null,
+    readonly options: RenderOptions = parent?.options || {}
+  ) {
+    this.values = new Map(Object.entries(values));
+    this.given = new Set(parent ? [] : this.values.keys());
+  }
+
+  get(name: string): any {
+    const { value, found, computed } = this.lookup(name);
+    if (found && !computed) this.options.onRead?.(name);
+    return value;
+  }
+
+  lookup(name: string): ScopeValue {
+    if (this.values.has(name)) {
+      return {
+        found: true,
+        value: this.values.get(name),
+        computed: !this.given.has(name),
+      };
+    }
+    return (
+      this.parent?.lookup(name) || {
+        found: false,
+        value: undefined,
+        computed: false,
+      }
+    );
+  }
+
+  declare(name: string, value: any): void {
+    this.values.set(name, value);
+    this.given.delete(name);
+  }
+
+  /**
+   * Assign to the nearest scope defining the variable, else this one
+   */
+  assign(name: string, value: any): void {
+    if (this.values.has(name) || !this.parent?.has(name)) {
+      this.declare(name, value);
+    } else {
+      this.parent.assign(name, value);
+    }
+  }
+
+  private has(name: string): boolean {
+    return this.values.has(name) || Boolean(this.parent?.has(name));
+  }
+
+  child(): Scope {
+    return new Scope({}, this);
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], scope: Scope): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += scope.options.renderText
+          ? scope.options.renderText(node.text, name => scope.lookup(name))
+          : node.text;
+        break;
+
+      case 'output':
+        output += toText(evaluate(node.expression, scope));
+        break;
+
+      case 'exec':
+        for (const assignment of node.assignments) {
+          const value = evaluate(assignment.value, scope);
+          if (assignment.name === OUTPUT_VARIABLE) {
+            output += toText(value);
+          } else if (assignment.declare) {
+            scope.declare(assignment.name, value);
+          } else {
+            const current = scope.get(assignment.name);
+            scope.assign(
+              assignment.name,
+              assignment.operator === '+='
+                ? current + value
+                : assignment.operator === '-='
+                  ? current - value
+                  : value
+            );
+          }
+        }
+        break;
+
+      case 'if': {
+        const branch = node.branches.find(
+          ({ test }) => test === null || evaluate(test, scope)
+        );
+        if (branch) output += renderNodes(branch.body, scope.child());
+        break;
+      }
+
+      case 'for': {
+        const items = evaluate(node.iterable, scope);
+        if (items === undefined || items === null) break;
+        if (!Array.isArray(items)) {
+          throw runtimeError(
+            `Cannot loop over ${describe(node.iterable)}: not an array`
+          );
+        }
+        for (const item of items) {
+          const loopScope = scope.child();
+          loopScope.declare(node.name, item);
+          output += renderNodes(node.body, loopScope);
+        }
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+function evaluate(expression: Expression, scope: Scope): any {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+
+    case 'identifier':
+      return scope.get(expression.name);
+
+    case 'array':
+      return expression.items.map(item => evaluate(item, scope));
+
+    case 'member': {
+      const object = evaluate(expression.object, scope);
+      if ((object === undefined || object === null) && expression.optional) {
+        return undefined;
+      }
+      return getProperty(
+        object,
+        evaluate(expression.property, scope),
+        expression
+      );
+    }
+
+    case 'call': {
+      const { callee } = expression;
+      const args = expression.args.map(arg => evaluate(arg, scope));
+
+      if (callee.type === 'member') {
+        const object = evaluate(callee.object, scope);
+        const name = evaluate(callee.property, scope);
+        const method = getProperty(object, name, callee);
+        if (typeof method !== 'function') {
+          throw runtimeError(`${describe(callee)} is not a function`);
+        }
+        const length =
+          name === 'repeat'
+            ? object.length * Number(args[0])
+            : name === 'padStart' || name === 'padEnd'
+              ? Number(args[0])
+              : 0;
+        if (typeof object === 'string' && length > MAX_STRING_LENGTH) {
+          throw runtimeError(
+            `${describe(callee)} would build a string longer than ${MAX_STRING_LENGTH} characters`
+          );
+        }
+        return method.apply(object, args);
+      }
+
+      const fn = evaluate(callee, scope);
+      if (typeof fn !== 'function') {
+        throw runtimeError(`${describe(callee)} is not a function`);
+      }
+      return fn(...args);
+    }
+
+    case 'unary': {
+      const value = evaluate(expression.argument, scope);
+      if (expression.operator === '!') return !value;
+      if (expression.operator === '-') return -value;
+      return +value;
+    }
+
+    case 'binary': {
+      const { operator } = expression;
+      const left = evaluate(expression.left, scope);
+
+      // Short-circuit like JavaScript
+      if (operator === '&&') return left && evaluate(expression.right, scope);
+      if (operator === '||') return left || evaluate(expression.right, scope);
+      if (operator === '??') return left ?? evaluate(expression.right, scope);
+
+      const right = evaluate(expression.right, scope);
+      switch (operator) {
+        case '===':
+          return left === right;
+        case '!==':
+          return left !== right;
+        case '==':
+          return left == right;
+        case '!=':
+          return left != right;
+        case '<':
+          return left < right;
+        case '<=':
+          return left <= right;
+        case '>':
+          return left > right;
+        case '>=':
+          return left >= right;
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return left / right;
+        case '%':
+          return left % right;
+      }
+      throw runtimeError(`Unsupported operator ${operator}`);
+    }
+
+    case 'conditional':
+      return evaluate(expression.test, scope)
+        ? evaluate(expression.consequent, scope)
+        : evaluate(expression.alternate, scope);
+  }
+}
+
+/**
+ * Read a property, allowing only own data properties of plain values,
+ * `length`, and whitelisted string, array and number methods
+ */
+function getProperty(object: any, key: any, expression: Expression): any {
+  const name = String(key);
+  if (object === undefined || object === null) {
+    throw runtimeError(
+      `Cannot read '${name}' of ${object} in ${describe(expression)}`
+    );
+  }
+
+  if (BLOCKED_PROPERTIES.includes(name)) {
+    throw runtimeError(`Access to '${name}' is not allowed`);
+  }
+
+  const kind = Array.isArray(object) ? 'array' : typeof object;
+  if (kind === 'string' || kind === 'array') {
+    if (name === 'length') return object.length;
+    if (/^\d+$/.test(name)) return object[name];
+  }
+  if (SAFE_METHODS[kind]?.includes(name)) {
+    return object[name];
+  }
+  if (
+    typeof object === 'object' &&
+    Object.prototype.hasOwnProperty.call(object, name)
+  ) {
+    return object[name];
+  }
+
+  return undefined;
+}
+
+function toText(value: any): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * Render an expression back to source for error messages
+ */
+function describe(expression: Expression): string {
+  switch (expression.type) {
+    case 'identifier':
+      return expression.name;
+    case 'literal':
+      return JSON.stringify(expression.value) ?? 'undefined';
+    case 'member':
+      return expression.property.type === 'literal'
+        ? `${describe(expression.object)}.${expression.property.value}`
+        : `${describe(expression.object)}[${describe(expression.property)}]`;
+    case 'call':
+      return `${describe(expression.callee)}()`;
+    default:
+      return 'expression';
+  }
+}
+
+function runtimeError(message: string): EnhancedMcpError {
+  return new EnhancedMcpError('template_error', `Template error: ${message}`);
+}
@@ -5,12 +5,38 @@
  * - Frontmatter parsing with variable extraction
  * - Variable specification parsing and validation
  * - Content normalization and processing
- * - Wikilink resolution
+ * - Wikilink resolution and embed transclusion
  * - Tag extraction and alias management
  */
 
 import matter from 'gray-matter';
-import { VaultConfig, ObsidianFile, VariableSpec } from './types.js';
+import { readFile } from 'fs/promises';
+import { basename, dirname, join, relative, sep } from 'path';
+import {
+  VaultConfig,
+  ObsidianFile,
+  VariableSpec,
+  EnhancedMcpError,
+} from './types.js';
+import { walkDirectory } from './search.js';
+import { listPlaceholderNames } from './placeholders.js';
+
+// [[link]] not preceded by ! (embeds are handled separately)
+const WIKILINK_PATTERN = /(?<!!)\[\[([^[\]\n]+?)\]\]/g;
+const EMBED_PATTERN = /!\[\[([^[\]\n]+?)\]\]/g;
+
+const TRUE_STRINGS = ['true', 'yes', 'y', 'on', '1'];
+const FALSE_STRINGS = ['false', 'no', 'n', 'off', '0'];
+const WEEKDAYS = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+const DAYS_PER_UNIT: Record<string, number> = { day: 1, week: 7 };
 
 export class ObsidianUtils {
   constructor(private config: VaultConfig) {}
@@ -102,14 +128,122 @@ export class ObsidianUtils {
    * Find variables referenced in content using {{variable}} syntax
    */
   extractContentVariables(content: string): string[] {
-    const matches = content.match(/\{\{([^}]+)\}\}/g) || [];
-    return matches
-      .map(match => {
-        const varName = match.slice(2, -2); // Remove {{ }}
-        const [name] = varName.split(':'); // Handle {{var:default}} format
-        return name.trim();
-      })
-      .filter((name, index, array) => array.indexOf(name) === index); // Remove duplicates
+    return listPlaceholderNames(content);
+  }
+
+  /**
+   * Coerce provided values to the types declared by their specs
+   *
+   * LLM clients usually send every value as a string, so "42", "yes",
+   * "next friday" and "a, b" become 42, true, an ISO date and ['a', 'b'].
+   * Values that can't be coerced are left as-is for validation to report.
+   */
+  coerceVariables(
+    specs: VariableSpec[],
+    provided: Record<string, any>,
+    now: Date = new Date()
+  ): Record<string, any> {
+    const coerced = { ...provided };
+
+    for (const spec of specs) {
+      const value = provided[spec.name];
+      if (value === undefined || value === null) continue;
+      coerced[spec.name] = this.coerceVariable(spec, value, now);
+    }
+
+    return coerced;
+  }
+
+  private coerceVariable(spec: VariableSpec, value: any, now: Date): any {
+    switch (spec.type) {
+      case 'string':
+        return typeof value === 'number' || typeof value === 'boolean'
+          ? String(value)
+          : value;
+
+      case 'number': {
+        if (typeof value !== 'string' || value.trim() === '') return value;
+        const number = Number(value.trim());
+        return Number.isFinite(number) ? number : value;
+      }
+
+      case 'boolean': {
+        if (typeof value !== 'string') return value;
+        const normalized = value.trim().toLowerCase();
+        if (TRUE_STRINGS.includes(normalized)) return true;
+        if (FALSE_STRINGS.includes(normalized)) return false;
+        return value;
+      }
+
+      case 'date': {
+        if (value instanceof Date) {
+          return isNaN(value.getTime()) ? value : this.toIsoDate(value);
+        }
+        if (typeof value !== 'string') return value;
+        // Keep ISO dates and timestamps exactly as sent
+        if (/^\d{4}-\d{2}-\d{2}/.test(value.trim())) return value.trim();
+        const date = this.parseNaturalDate(value, now);
+        return date ? this.toIsoDate(date) : value;
+      }
+
+      case 'array':
+        if (typeof value !== 'string') return value;
+        return value
+          .split(',')
+          .map(item => item.trim())
+          .filter(item => item.length > 0);
+    }
+
+    return value;
+  }
+
+  /**
+   * Parse relative dates such as "today", "in 3 days", "2 weeks ago",
+   * "next friday" or "monday", falling back to Date's own parser
+   */
+  private parseNaturalDate(text: string, now: Date): Date | null {
+    const normalized = text.trim().toLowerCase();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const addDays = (days: number) =>
+      new Date(today.getFullYear(), today.getMonth(), today.getDate() + days);
+
+    if (normalized === 'today' || normalized === 'now') return today;
+    if (normalized === 'tomorrow') return addDays(1);
+    if (normalized === 'yesterday') return addDays(-1);
+
+    const relative =
+      normalized.match(/^in (\d+) (day|week|month)s?$/) ||
+      normalized.match(/^(\d+) (day|week|month)s? ago$/);
+    if (relative) {
+      const amount =
+        Number(relative[1]) * (normalized.endsWith('ago') ? -1 : 1);
+      return relative[2] === 'month'
+        ? new Date(
+            today.getFullYear(),
+            today.getMonth() + amount,
+            today.getDate()
+          )
+        : addDays(amount * DAYS_PER_UNIT[relative[2]]);
+    }
+
+    const weekday = normalized.match(/^(?:(next|last) )?([a-z]+)$/);
+    if (weekday && WEEKDAYS.includes(weekday[2])) {
+      const target = WEEKDAYS.indexOf(weekday[2]);
+      if (weekday[1] === 'last') {
+        return addDays(-(((today.getDay() - target + 6) % 7) + 1));
+      }
+      // A bare weekday means the coming one, including today
+      const ahead = (target - today.getDay() + 7) % 7;
+      return addDays(weekday[1] === 'next' && ahead === 0 ? 7 : ahead);
+    }
+
+    const parsed = new Date(text);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  private toIsoDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
   }
 
   /**
@@ -183,11 +317,22 @@ export class ObsidianUtils {
         }
         break;
       }
+
+      case 'array':
+        if (!Array.isArray(value)) {
+          return `expected array, got ${typeof value}`;
+        }
+        break;
     }
 
-    // Check options if specified
-    if (spec.options && !spec.options.includes(value)) {
-      return `expected one of [${spec.options.join(', ')}], got ${value}`;
+    // Check options if specified - every array item must be an option
+    if (spec.options) {
+      const invalid = (Array.isArray(value) ? value : [value]).filter(
+        item => !spec.options!.includes(item)
+      );
+      if (invalid.length > 0) {
+        return `expected one of [${spec.options.join(', ')}], got ${invalid.join(', ')}`;
+      }
     }
 
     return null;
@@ -217,14 +362,668 @@ export class ObsidianUtils {
     return [];
   }
 
+  /**
+   * Extract inline #tags from note content, ignoring headings and code
+   */
+  extractInlineTags(content: string): string[] {
+    const withoutCode = content
+      .replace(/```[\s\S]*?```/g, '')
+      .replace(/`[^`\n]*`/g, '');
+    const matches = withoutCode.matchAll(/(?:^|\s)#([\p{L}\p{N}_/-]+)/gu);
+    const tags = new Set<string>();
+
+    for (const match of matches) {
+      // Pure numbers like #123 are not tags in Obsidian
+      if (!/^\d+$/.test(match[1])) {
+        tags.add(match[1]);
+      }
+    }
+
+    return [...tags];
+  }
+
+  /**
+   * Check whether a note's tags include a tag, honoring nested tags
+   * (filtering by `client` also matches `client/intake`)
+   */
+  hasTag(tags: string[], tag: string): boolean {
+    const wanted = tag.replace(/^#/, '').toLowerCase();
+    return tags.some(candidate => {
+      const normalized = candidate.replace(/^#/, '').toLowerCase();
+      return normalized === wanted || normalized.startsWith(`${wanted}/`);
+    });
+  }
+
+  /**
+   * Append an item to a list in the note's frontmatter without
+   * reformatting the rest of the YAML
+   *
+   * Block lists get the new item appended with matching indentation; a
+   * missing key is added at the end of the frontmatter; inline values are
+   * rewritten as a block list. Only the lines of the target key change.
+   */
+  addFrontmatterListItem(
+    content: string,
+    key: string,
+    item: Record<string, string>
+  ): string {
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(eol);
+    const formatItem = (indent: string) =>
+      Object.entries(item).map(
+        ([field, value], index) =>
+          `${indent}${index === 0 ? '- ' : '  '}${field}: ${this.formatYamlScalar(value)}`
+      );
+
+    // No frontmatter yet - create it
+    if (lines[0] !== '---') {
+      return ['---', `${key}:`, ...formatItem('  '), '---', ...lines].join(eol);
+    }
+
+    const end = lines.findIndex(
+      (line, index) => index > 0 && (line === '---' || line === '...')
+    );
+    if (end === -1) {
+      throw new Error('Unterminated frontmatter block');
+    }
+
+    const keyPattern = new RegExp(
+      `^${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}:\\s*(.*)$`
+    );
+    const keyIndex = lines.findIndex(
+      (line, index) => index > 0 && index < end && keyPattern.test(line)
+    );
+
+    // Key absent - add it just before the closing delimiter
+    if (keyIndex === -1) {
+      lines.splice(end, 0, `${key}:`, ...formatItem('  '));
+      return lines.join(eol);
+    }
+
+    // Find the extent of the key's value (indented or `- ` lines)
+    let blockEnd = keyIndex + 1;
+    while (
+      blockEnd < end &&
+      (/^\s/.test(lines[blockEnd]) ||
+        lines[blockEnd].startsWith('-') ||
+        lines[blockEnd].trim() === '')
+    ) {
+      blockEnd++;
+    }
+    while (blockEnd > keyIndex + 1 && lines[blockEnd - 1].trim() === '') {
+      blockEnd--;
+    }
+
+    const { value, comment } = this.splitYamlComment(
+      lines[keyIndex].match(keyPattern)![1]
+    );
+    if (value === '') {
+      const firstItem = lines
+        .slice(keyIndex + 1, blockEnd)
+        .find(line => line.trimStart().startsWith('-'));
+      const indent = firstItem ? firstItem.match(/^\s*/)![0] : '  ';
+      lines.splice(blockEnd, 0, ...formatItem(indent));
+      return lines.join(eol);
+    }
+
+    // Inline or flow value - rewrite just this key as a block list, keeping
+    // the existing items and any comment exactly as written
+    const flow =
+      value.startsWith('[') && !value.endsWith(']')
+        ? [value, ...lines.slice(keyIndex + 1, blockEnd)]
+            .map(line => line.trim())
+            .join(' ')
+        : value;
+    const existingItems = /^\[[\s\S]*\]$/.test(flow)
+      ? this.splitFlowItems(flow.slice(1, -1))
+      : ['~', 'null'].includes(flow)
+        ? []
+        : [flow];
+    lines.splice(
+      keyIndex,
+      blockEnd - keyIndex,
+      `${key}:${comment ? ` ${comment}` : ''}`,
+      ...existingItems.map(existing => `  - ${existing}`),
+      ...formatItem('  ')
+    );
+    return lines.join(eol);
+  }
+
+  /**
+   * Split a YAML value from its trailing `# comment`, ignoring `#` inside
+   * quotes or words
+   */
+  private splitYamlComment(text: string): { value: string; comment: string } {
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+        return { value: text.slice(0, i).trim(), comment: text.slice(i) };
+      }
+    }
+    return { value: text.trim(), comment: '' };
+  }
+
+  /**
+   * Split the inside of a YAML flow sequence into its items as written
+   */
+  private splitFlowItems(text: string): string[] {
+    const items: string[] = [];
+    let quote: string | null = null;
+    let depth = 0;
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '[' || char === '{') {
+        depth++;
+      } else if (char === ']' || char === '}') {
+        depth--;
+      } else if (char === ',' && depth === 0) {
+        items.push(text.slice(start, i).trim());
+        start = i + 1;
+      }
+    }
+    items.push(text.slice(start).trim());
+
+    return items.filter(item => item.length > 0);
+  }
+
+  /**
+   * Format a string as a YAML scalar, quoting only when necessary
+   */
+  private formatYamlScalar(value: string): string {
+    return /^[A-Za-z0-9_][\w ./-]*$/.test(value) && !/\s$/.test(value)
+      ? value
+      : JSON.stringify(value);
+  }
+
+  /**
+   * Reduce `[[Target|Alias]]` or `[[Target#Heading]]` to `Target`
+   */
+  stripWikilink(link: string): string {
+    const match = link.trim().match(/^!?\[\[([^\]|#^]+)[^\]]*\]\]$/);
+    return (match ? match[1] : link).trim();
+  }
+
   /**
    * Resolve wikilinks in content
-   * Pattern: [[target|alias]] or [[target]]
+   * Pattern: [[target|alias]], [[target#heading]], [[target#^block]]
+   *
+   * In `markdown` mode links become `[text](path#anchor)`; in `path` mode
+   * they become the vault-relative path (prefixed by the alias if any).
+   * Embeds (`![[...]]`) and links inside code are left untouched, as are
+   * unresolved links, whose targets are reported in `unresolved`.
+   * `listFiles` supplies the vault's files (e.g. from the vault index);
+   * the vault is only listed when the content has links.
    */
-  async resolveWikilinks(content: string): Promise<string> {
-    // Implementation stub
-    console.log('resolveWikilinks: Implementation pending');
-    return content;
+  async resolveWikilinks(
+    content: string,
+    options: {
+      mode?: 'markdown' | 'path';
+      sourcePath?: string;
+      listFiles?: () => Promise<string[]>;
+    } = {}
+  ): Promise<{ content: string; unresolved: string[] }> {
+    if (!content.includes('[[')) return { content, unresolved: [] };
+
+    const mode = options.mode || 'markdown';
+    const unresolved: string[] = [];
+    const files = await (options.listFiles || (() => this.listVaultFiles()))();
+    const resolvedLinks = new Map<string, string | null>();
+    const segments = this.splitOutsideCode(content);
+
+    // Resolve each distinct link once
+    for (const segment of segments) {
+      if (segment.isCode) continue;
+      for (const match of segment.text.matchAll(WIKILINK_PATTERN)) {
+        if (!resolvedLinks.has(match[1])) {
+          resolvedLinks.set(
+            match[1],
+            await this.renderWikilink(match[1], mode, files, options.sourcePath)
+          );
+        }
+      }
+    }
+
+    const resolved = segments
+      .map(segment =>
+        segment.isCode
+          ? segment.text
+          : segment.text.replace(WIKILINK_PATTERN, (original, inner) => {
+              const rendered = resolvedLinks.get(inner);
+              if (rendered === null || rendered === undefined) {
+                unresolved.push(this.parseWikilink(inner).linkpath || inner);
+                return original;
+              }
+              return rendered;
+            })
+      )
+      .join('');
+
+    return { content: resolved, unresolved: [...new Set(unresolved)] };
+  }
+
+  /**
+   * Transclude `![[embeds]]` of notes into content
+   * Pattern: ![[note]], ![[note#heading]], ![[note#^block]]
+   *
+   * Embedded notes are inlined without their frontmatter; heading and block
+   * embeds inline only the referenced section. Nested embeds are expanded up
+   * to `maxDepth` levels, and an embed that includes itself is an error.
+   * Embedded notes' variable specs are collected so callers can merge them.
+   * As with resolveWikilinks, `listFiles` supplies the vault's files.
+   */
+  async transcludeEmbeds(
+    content: string,
+    options: {
+      sourcePath?: string;
+      maxDepth?: number;
+      listFiles?: () => Promise<string[]>;
+    } = {}
+  ): Promise<{
+    content: string;
+    variableSpecs: VariableSpec[];
+    unresolved: string[];
+  }> {
+    if (!content.includes('![[')) {
+      return { content, variableSpecs: [], unresolved: [] };
+    }
+
+    const maxDepth = options.maxDepth ?? this.config.maxEmbedDepth ?? 5;
+    const files = await (options.listFiles || (() => this.listVaultFiles()))();
+    const variableSpecs: VariableSpec[] = [];
+    const unresolved: string[] = [];
+    const chain = options.sourcePath
+      ? [`${this.toVaultPath(options.sourcePath)}#`]
+      : [];
+
+    const expand = async (
+      text: string,
+      sourcePath: string | undefined,
+      stack: string[]
+    ): Promise<string> => {
+      let result = '';
+
+      for (const segment of this.splitOutsideCode(text)) {
+        if (segment.isCode) {
+          result += segment.text;
+          continue;
+        }
+
+        let lastIndex = 0;
+        for (const match of segment.text.matchAll(EMBED_PATTERN)) {
+          result += segment.text.slice(lastIndex, match.index);
+          lastIndex = match.index! + match[0].length;
+
+          const link = this.parseWikilink(match[1]);
+          const targetPath = link.target
+            ? this.findLinkTarget(link.target, files, sourcePath)
+            : sourcePath && this.toVaultPath(sourcePath);
+
+          // Images, PDFs and other attachments are left for the reader
+          if (targetPath && !/\.(md|txt)$/i.test(targetPath)) {
+            result += match[0];
+            continue;
+          }
+
+          const embedded = targetPath
+            ? await this.readEmbed(targetPath, link)
+            : null;
+          if (!embedded) {
+            unresolved.push(link.linkpath || match[1]);
+            result += match[0];
+            continue;
+          }
+
+          const key = `${targetPath}#${link.heading || (link.blockId ? `^${link.blockId}` : '')}`;
+          if (stack.includes(key)) {
+            throw new EnhancedMcpError(
+              'embed_cycle',
+              `Embed cycle detected: ${[...stack, key].join(' -> ')}`,
+              { chain: [...stack, key] }
+            );
+          }
+          if (stack.length - chain.length >= maxDepth) {
+            throw new EnhancedMcpError(
+              'embed_depth_exceeded',
+              `Embeds nested more than ${maxDepth} levels deep at '${match[0]}'`,
+              { maxDepth, chain: [...stack, key] }
+            );
+          }
+
+          for (const spec of embedded.variableSpecs) {
+            if (!variableSpecs.some(existing => existing.name === spec.name)) {
+              variableSpecs.push(spec);
+            }
+          }
+
+          result += await expand(
+            embedded.content,
+            join(this.config.allowedDirectories[0], targetPath!),
+            [...stack, key]
+          );
+        }
+        result += segment.text.slice(lastIndex);
+      }
+
+      return result;
+    };
+
+    const transcluded = await expand(content, options.sourcePath, chain);
+
+    return {
+      content: transcluded,
+      variableSpecs,
+      unresolved: [...new Set(unresolved)],
+    };
+  }
+
+  /**
+   * Read the part of a note referenced by an embed, without frontmatter
+   */
+  private async readEmbed(
+    targetPath: string,
+    link: { heading?: string; blockId?: string }
+  ): Promise<{ content: string; variableSpecs: VariableSpec[] } | null> {
+    let parsed: ObsidianFile;
+    try {
+      const raw = await readFile(
+        join(this.config.allowedDirectories[0], targetPath),
+        'utf-8'
+      );
+      parsed = this.parseObsidianFile(raw);
+    } catch {
+      return null;
+    }
+
+    const section = link.blockId
+      ? this.extractBlock(parsed.content, link.blockId)
+      : link.heading
+        ? this.extractHeadingSection(parsed.content, link.heading)
+        : parsed.content;
+    if (section === null) return null;
+
+    return {
+      content: section,
+      variableSpecs: this.extractVariableSpecs(parsed.frontmatter),
+    };
+  }
+
+  /**
+   * Extract a heading and everything under it, up to the next heading of
+   * the same or a higher level
+   */
+  private extractHeadingSection(
+    content: string,
+    heading: string
+  ): string | null {
+    const wanted = heading.trim().replace(/\s+/g, ' ').toLowerCase();
+    const lines = content.split('\n');
+    let start = -1;
+    let level = 0;
+    let inFence = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (/^\s*(```|~~~)/.test(lines[i])) {
+        inFence = !inFence;
+        continue;
+      }
+      if (inFence) continue;
+
+      const match = lines[i].match(/^(#{1,6})\s+(.+?)\s*#*$/);
+      if (!match) continue;
+
+      if (start === -1) {
+        if (match[2].replace(/\s+/g, ' ').toLowerCase() === wanted) {
+          start = i;
+          level = match[1].length;
+        }
+      } else if (match[1].length <= level) {
+        return lines.slice(start, i).join('\n').trimEnd();
+      }
+    }
+
+    return start === -1 ? null : lines.slice(start).join('\n').trimEnd();
+  }
+
+  /**
+   * Extract the paragraph or list item marked with `^blockId`
+   */
+  private extractBlock(content: string, blockId: string): string | null {
+    const lines = content.split('\n');
+    const marker = new RegExp(`(^|\\s)\\^${blockId}\\s*$`);
+    let index = lines.findIndex(line => marker.test(line));
+    if (index === -1) return null;
+
+    // A marker on its own line labels the block just above it
+    if (lines[index].trim() === `^${blockId}`) {
+      index--;
+      if (index < 0 || lines[index].trim() === '') return null;
+    }
+
+    const strip = (line: string) => line.replace(marker, '').trimEnd();
+
+    if (/^\s*(?:[-*+]|\d+[.)])\s/.test(lines[index])) {
+      return strip(lines[index]);
+    }
+
+    let start = index;
+    while (start > 0 && lines[start - 1].trim() !== '') start--;
+    let end = index;
+    while (end < lines.length - 1 && lines[end + 1].trim() !== '') end++;
+
+    return lines
+      .slice(start, end + 1)
+      .map(strip)
+      .filter(line => line.trim() !== `^${blockId}`)
+      .join('\n');
+  }
+
+  /**
+   * Parse the inside of a wikilink into target, subpath and alias
+   */
+  parseWikilink(inner: string): {
+    target: string;
+    heading?: string;
+    blockId?: string;
+    alias?: string;
+    linkpath: string;
+  } {
+    const pipeIndex = inner.indexOf('|');
+    const linkpath = (pipeIndex === -1 ? inner : inner.slice(0, pipeIndex))
+      .trim()
+      .replace(/\\$/, ''); // Escaped pipes inside tables: [[note\|alias]]
+    const alias =
+      pipeIndex === -1 ? undefined : inner.slice(pipeIndex + 1).trim();
+
+    // Block references: [[note#^id]] or the shorthand [[note^id]]
+    const blockMatch = linkpath.match(/^(.*?)#?\^([\w-]+)$/);
+    if (blockMatch) {
+      return {
+        target: blockMatch[1].trim(),
+        blockId: blockMatch[2],
+        alias,
+        linkpath,
+      };
+    }
+
+    const hashIndex = linkpath.indexOf('#');
+    if (hashIndex !== -1) {
+      // Nested headings ([[note#H1#H2]]) link to the last heading
+      const headings = linkpath
+        .slice(hashIndex + 1)
+        .split('#')
+        .filter(Boolean);
+      return {
+        target: linkpath.slice(0, hashIndex).trim(),
+        heading: headings[headings.length - 1],
+        alias,
+        linkpath,
+      };
+    }
+
+    return { target: linkpath, alias, linkpath };
+  }
+
+  /**
+   * Render one wikilink, or return null when it cannot be resolved
+   */
+  private async renderWikilink(
+    inner: string,
+    mode: 'markdown' | 'path',
+    files: string[],
+    sourcePath?: string
+  ): Promise<string | null> {
+    const link = this.parseWikilink(inner);
+    const vaultRoot = this.config.allowedDirectories[0] || '';
+
+    const targetPath = link.target
+      ? this.findLinkTarget(link.target, files, sourcePath)
+      : sourcePath && this.toVaultPath(sourcePath);
+    if (!targetPath) return null;
+
+    let anchor = '';
+    if (link.heading || link.blockId) {
+      let targetContent: string;
+      try {
+        targetContent = await readFile(join(vaultRoot, targetPath), 'utf-8');
+      } catch {
+        return null;
+      }
+
+      if (link.blockId) {
+        const blockPattern = new RegExp(`\\s\\^${link.blockId}\\s*$`, 'm');
+        if (!blockPattern.test(targetContent)) return null;
+        anchor = `#^${link.blockId}`;
+      } else {
+        const heading = this.findHeading(targetContent, link.heading!);
+        if (!heading) return null;
+        anchor = `#${heading}`;
+      }
+    }
+
+    const defaultText = link.target
+      ? basename(link.target) +
+        (link.heading ? ` > ${link.heading}` : '') +
+        (link.blockId ? ` > ^${link.blockId}` : '')
+      : link.heading || link.blockId || '';
+    const text = link.alias || defaultText;
+
+    if (mode === 'path') {
+      const path = `${targetPath}${anchor}`;
+      return link.alias ? `${link.alias} (${path})` : path;
+    }
+
+    return `[${text}](${encodeURI(targetPath)}${anchor.replace(/ /g, '%20')})`;
+  }
+
+  /**
+   * Find a heading in markdown content, case-insensitively
+   */
+  private findHeading(content: string, heading: string): string | null {
+    const wanted = heading.trim().replace(/\s+/g, ' ').toLowerCase();
+
+    for (const segment of this.splitOutsideCode(content)) {
+      if (segment.isCode) continue;
+      for (const match of segment.text.matchAll(/^#{1,6}\s+(.+?)\s*#*$/gm)) {
+        if (match[1].replace(/\s+/g, ' ').toLowerCase() === wanted) {
+          return match[1];
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve a link target to a vault-relative path using Obsidian's rules
+   *
+   * Matching is case-insensitive. A full vault path wins; otherwise the
+   * target is matched against path suffixes, preferring a file in the
+   * source note's folder, then the shortest path.
+   */
+  private findLinkTarget(
+    target: string,
+    files: string[],
+    sourcePath?: string
+  ): string | null {
+    const wanted = target.replace(/^\/+/, '').toLowerCase();
+    const hasExtension = /\.[a-z0-9]+$/i.test(wanted) && !wanted.endsWith('.');
+    const candidates = hasExtension ? [wanted] : [`${wanted}.md`, wanted];
+
+    for (const candidate of candidates) {
+      const exact = files.find(file => file.toLowerCase() === candidate);
+      if (exact) return exact;
+
+      const matches = files.filter(file =>
+        file.toLowerCase().endsWith(`/${candidate}`)
+      );
+      if (matches.length === 0) continue;
+      if (matches.length === 1) return matches[0];
+
+      const sourceFolder = sourcePath
+        ? dirname(this.toVaultPath(sourcePath)).toLowerCase()
+        : null;
+      const sameFolder = matches.find(
+        file => dirname(file).toLowerCase() === sourceFolder
+      );
+      if (sameFolder) return sameFolder;
+
+      return [...matches].sort(
+        (a, b) =>
+          a.split('/').length - b.split('/').length || a.localeCompare(b)
+      )[0];
+    }
+
+    return null;
+  }
+
+  /**
+   * List all files in the vault as vault-relative paths
+   */
+  async listVaultFiles(): Promise<string[]> {
+    const vaultRoot = this.config.allowedDirectories[0];
+    if (!vaultRoot) return [];
+
+    const files: string[] = [];
+    for await (const entry of walkDirectory(vaultRoot, {
+      allowedDirectories: this.config.allowedDirectories,
+      excludePatterns: ['.obsidian', '.trash'],
+    })) {
+      if (!entry.isDirectory) {
+        files.push(entry.relativePath);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Convert an absolute path to a vault-relative path with forward slashes
+   */
+  private toVaultPath(filePath: string): string {
+    const vaultRoot = this.config.allowedDirectories[0] || '';
+    return relative(vaultRoot, filePath).split(sep).join('/');
+  }
+
+  /**
+   * Split content into code (fenced blocks, inline code) and prose segments
+   */
+  private splitOutsideCode(
+    content: string
+  ): { text: string; isCode: boolean }[] {
+    return content
+      .split(/(```[\s\S]*?```|~~~[\s\S]*?~~~|`[^`\n]*`)/)
+      .map((text, index) => ({ text, isCode: index % 2 === 1 }));
   }
 
   /**
@@ -238,10 +1037,37 @@ export class ObsidianUtils {
 
   /**
    * Validate wikilink target exists
+   * Returns the absolute path of the linked file, or null if unresolved
    */
-  async resolveWikilinkTarget(target: string): Promise<string | null> {
-    // Implementation stub
-    console.log(`resolveWikilinkTarget: ${target} - Implementation pending`);
-    return null;
+  async resolveWikilinkTarget(
+    target: string,
+    sourcePath?: string,
+    files?: string[]
+  ): Promise<string | null> {
+    const link = this.parseWikilink(target.replace(/^!?\[\[|\]\]$/g, ''));
+    files = files || (await this.listVaultFiles());
+    const vaultPath = this.findLinkTarget(link.target, files, sourcePath);
+
+    return vaultPath
+      ? join(this.config.allowedDirectories[0], vaultPath)
+      : null;
+  }
+
+  /**
+   * Wikilink text for a file, as Obsidian writes it: the file name without
+   * extension, or the vault-relative path when that name isn't unique
+   */
+  async getLinkText(filePath: string, files?: string[]): Promise<string> {
+    files = files || (await this.listVaultFiles());
+    const vaultPath = this.toVaultPath(filePath);
+    const name = basename(vaultPath).toLowerCase();
+    const sameName = files.filter(
+      file => basename(file).toLowerCase() === name
+    );
+
+    return (sameName.length > 1 ? vaultPath : basename(vaultPath)).replace(
+      /\.md$/i,
+      ''
+    );
   }
 }
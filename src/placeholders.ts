@@ -0,0 +1,170 @@
+/**
+ * Placeholder parsing
+ *
+ * Tokenizes `{{variable}}` placeholders, including `{{variable:default}}`
+ * defaults (which may themselves contain colons) and pipe filters such as
+ * `{{session_date | date:"DD MMM YYYY"}}`. A backslash before the opening
+ * braces (`\{{`) produces literal braces.
+ */
+
+export interface PlaceholderFilterCall {
+  name: string;
+  args: string[];
+}
+
+export interface Placeholder {
+  // Placeholder as written, braces included
+  raw: string;
+  name: string;
+  defaultValue?: string;
+  filters: PlaceholderFilterCall[];
+}
+
+/**
+ * A filter receives the current value (undefined when the variable is
+ * missing) and its arguments, and returns the new value
+ */
+export type PlaceholderFilter = (value: any, args: string[]) => any;
+
+/**
+ * Split content into literal text and placeholders
+ */
+export function parsePlaceholders(content: string): (string | Placeholder)[] {
+  const parts: (string | Placeholder)[] = [];
+  let text = '';
+  let index = 0;
+
+  while (index < content.length) {
+    const start = content.indexOf('{{', index);
+    if (start === -1) {
+      text += content.slice(index);
+      break;
+    }
+
+    // \{{ is an escaped, literal {{
+    if (content[start - 1] === '\\') {
+      text += `${content.slice(index, start - 1)}{{`;
+      index = start + 2;
+      continue;
+    }
+
+    const end = findClosingBraces(content, start + 2);
+    const placeholder =
+      end === -1 ? null : parsePlaceholder(content.slice(start, end + 2));
+    if (!placeholder) {
+      text += content.slice(index, start + 2);
+      index = start + 2;
+      continue;
+    }
+
+    text += content.slice(index, start);
+    if (text) parts.push(text);
+    text = '';
+    parts.push(placeholder);
+    index = end + 2;
+  }
+
+  if (text) parts.push(text);
+  return parts;
+}
+
+/**
+ * Placeholder names referenced in content, without duplicates
+ */
+export function listPlaceholderNames(content: string): string[] {
+  const names = parsePlaceholders(content)
+    .filter((part): part is Placeholder => typeof part !== 'string')
+    .map(placeholder => placeholder.name);
+  return [...new Set(names)];
+}
+
+/**
+ * Parse `{{name:default | filter:"arg", arg}}`, or return null when the
+ * braces don't hold a placeholder
+ */
+function parsePlaceholder(raw: string): Placeholder | null {
+  const [head, ...filterParts] = splitUnquoted(raw.slice(2, -2), '|');
+  const colon = indexOfUnquoted(head, ':');
+  const name = (colon === -1 ? head : head.slice(0, colon)).trim();
+  if (!name || /["'\n]/.test(name)) return null;
+
+  return {
+    raw,
+    name,
+    defaultValue:
+      colon === -1 ? undefined : unquote(head.slice(colon + 1).trim()),
+    filters: filterParts.map(part => {
+      const filterColon = indexOfUnquoted(part, ':');
+      return {
+        name: (filterColon === -1 ? part : part.slice(0, filterColon)).trim(),
+        args:
+          filterColon === -1
+            ? []
+            : splitUnquoted(part.slice(filterColon + 1), ',').map(arg =>
+                unquote(arg.trim())
+              ),
+      };
+    }),
+  };
+}
+
+function findClosingBraces(content: string, from: number): number {
+  return scanUnquoted(content, from, i => content.startsWith('}}', i));
+}
+
+function indexOfUnquoted(text: string, separator: string): number {
+  return scanUnquoted(text, 0, i => text[i] === separator);
+}
+
+/**
+ * Find the first index matching `isMatch` outside quoted strings. A quote
+ * only opens a string at the start of a value (after `:`, `,` or `|`), so
+ * apostrophes in plain text like `{{notes:Ada's notes}}` are left alone.
+ */
+function scanUnquoted(
+  text: string,
+  from: number,
+  isMatch: (index: number) => boolean
+): number {
+  let quote: string | null = null;
+
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (
+      (char === '"' || char === "'") &&
+      /(?:^|[:,|])\s*$/.test(text.slice(from, i))
+    ) {
+      quote = char;
+    } else if (isMatch(i)) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+function splitUnquoted(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  let index = indexOfUnquoted(rest, separator);
+
+  while (index !== -1) {
+    parts.push(rest.slice(0, index));
+    rest = rest.slice(index + 1);
+    index = indexOfUnquoted(rest, separator);
+  }
+  parts.push(rest);
+
+  return parts;
+}
+
+/**
+ * Strip matching quotes and unescape their contents
+ */
+function unquote(text: string): string {
+  const match = text.match(/^(["'])([\s\S]*)\1$/);
+  return match ? match[2].replace(/\\(.)/g, '$1') : text;
+}
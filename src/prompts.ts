@@ -10,28 +10,55 @@ import {
   PromptOptions,
   GetPromptedResult,
   PromptHit,
+  PromptDiscoveryResult,
+  PromptSummary,
+  ListPromptsOptions,
   VariableSpec,
+  TemplateVariable,
+  TemplateContext,
+  UsedVariable,
   EnhancedMcpError,
 } from './types.js';
 import { ObsidianUtils } from './obsidian.js';
 import { TemplateProcessor } from './templates.js';
-import {
-  validateVaultPath,
-  getPathInfo,
-  isAllowedFileType,
-} from './security.js';
 import { resolveVaultPath } from './config.js';
-import { readFile, readdir } from 'fs/promises';
-import { join, basename, extname } from 'path';
+import { validateVaultPath, validateRealPath } from './security.js';
+import { VaultIndex, VaultIndexEntry } from './vault.js';
+import { listPlaceholderNames } from './placeholders.js';
+import { listTemplateVariables } from './interpreter.js';
+import {
+  scoreContentMatch,
+  createSearchRegExp,
+  calculateFuzzyScore,
+} from './search.js';
+import { readFile, stat } from 'fs/promises';
+import { basename, extname, relative, sep } from 'path';
+
+// Strategy weights keep the discovery cascade order: a top-level exact
+// filename outranks path and alias hits, which outrank fuzzy and content hits
+const STRATEGY_WEIGHTS: Record<PromptHit['reason'], number> = {
+  exact: 1.0,
+  path: 0.9,
+  alias: 0.8,
+  fuzzy: 0.75,
+  content: 0.5,
+};
+const NESTED_EXACT_SCORE = 0.9;
+const PATH_SUFFIX_SCORE = 0.9;
+const PROMPT_AMBIGUITY_MARGIN = 0.05;
+const DEFAULT_MAX_CANDIDATES = 5;
 
 export class PromptManager {
   private templateProcessor: TemplateProcessor;
+  private vaultIndex: VaultIndex;
 
   constructor(
     private config: VaultConfig,
-    private obsidianUtils: ObsidianUtils
+    private obsidianUtils: ObsidianUtils,
+    vaultIndex?: VaultIndex
   ) {
     this.templateProcessor = new TemplateProcessor(config);
+    this.vaultIndex = vaultIndex || new VaultIndex(config, obsidianUtils);
   }
 
   /**
@@ -45,10 +72,16 @@ export class PromptManager {
   ): Promise<GetPromptedResult> {
     try {
       // 1. Discover the prompt file
-      const promptPath = await this.discoverPrompt(
+      const discovery = await this.discoverPrompt(
         promptName,
-        options.searchPaths
+        options.searchPaths,
+        options.searchMode,
+        options.maxCandidates
       );
+      const candidates = options.returnCandidates
+        ? discovery.candidates || []
+        : [];
+      const promptPath = discovery.path;
       if (!promptPath) {
         throw new EnhancedMcpError(
           'prompt_not_found',
@@ -56,10 +89,29 @@ export class PromptManager {
         );
       }
 
-      // 2. Load and parse the prompt
-      const { content, frontmatter } = await this.loadPromptFile(promptPath);
+      // 2. Load and parse the prompt, inlining ![[embeds]] before variables
+      const loaded = await this.loadPromptFile(promptPath);
+      const { frontmatter } = loaded;
+      let content = loaded.content;
+      let unresolvedEmbeds: string[] = [];
       const { specVariables } = this.collectAllVariables(content, frontmatter);
 
+      if (this.shouldTranscludeEmbeds(options)) {
+        const embedResult = await this.obsidianUtils.transcludeEmbeds(content, {
+          sourcePath: promptPath,
+          listFiles: () => this.vaultIndex.listFiles(),
+        });
+        content = embedResult.content;
+        unresolvedEmbeds = embedResult.unresolved;
+
+        // The prompt's own specs take precedence over embedded ones
+        for (const spec of embedResult.variableSpecs) {
+          if (!specVariables.some(existing => existing.name === spec.name)) {
+            specVariables.push(spec);
+          }
+        }
+      }
+
       // 3. Check for missing required variables (but don't error - let LLM handle it)
       const missingRequired = this.findMissingRequiredVariables(
         specVariables,
@@ -68,79 +120,174 @@ export class PromptManager {
 
       if (missingRequired.length > 0) {
         // Return a response that asks the LLM to collect missing variables
-        return this.createMissingVariablesResult(
-          promptPath,
-          missingRequired,
-          frontmatter
-        );
+        return {
+          ...this.createMissingVariablesResult(
+            promptPath,
+            missingRequired,
+            frontmatter
+          ),
+          candidates,
+          matchedBy: discovery.match,
+        };
       }
 
-      // 4. Process variables and template syntax
-      const mergedVariables = this.mergeVariablesWithDefaults(
-        variables,
-        specVariables
-      );
-      let processedContent = content;
-
-      // Basic templater processing if enabled
-      if (options.processTemplater !== false && this.config.templaterLite) {
-        processedContent = this.resolveTemplaterSyntax(
-          processedContent,
-          mergedVariables,
-          promptPath
+      // 4. Coerce values to their declared types and validate them
+      const { variables: typedVariables, errors: variableErrors } =
+        this.validateVariables(specVariables, variables);
+      if (
+        variableErrors.length > 0 &&
+        (options.strictVariables ?? this.config.strictVariables)
+      ) {
+        throw new EnhancedMcpError(
+          'invalid_variables',
+          `Invalid variables for '${promptName}': ${variableErrors.join('; ')}`,
+          { errors: variableErrors }
         );
       }
 
-      // Variable substitution
-      const substitutionResult = this.substituteVariables(
-        processedContent,
-        mergedVariables
-      );
-
-      // 5. Return the processed prompt - let the LLM decide what to do with it
-      return this.createSuccessResult(
+      // 5. Evaluate defaults, then render template syntax and placeholders
+      // in a single pass
+      const templater =
+        options.processTemplater !== false &&
+        Boolean(this.config.templaterLite);
+      const templateContext = await this.createTemplateContext(
         promptPath,
-        substitutionResult.content,
-        substitutionResult.usedVariables,
-        substitutionResult.missingVariables,
-        frontmatter
+        loaded,
+        templater
       );
+      const rendered = this.templateProcessor.render(
+        content,
+        {
+          ...templateContext,
+          variables: this.createTemplateVariables(
+            typedVariables,
+            specVariables,
+            templateContext,
+            templater
+          ),
+        },
+        { filePath: promptPath, templater }
+      );
+
+      // 6. Resolve wikilinks to markdown links or vault paths
+      let finalContent = rendered.content;
+      let unresolvedLinks = unresolvedEmbeds;
+      const wikilinkOptions = this.getWikilinkOptions(options);
+
+      if (wikilinkOptions) {
+        const linkResult = await this.obsidianUtils.resolveWikilinks(
+          finalContent,
+          {
+            mode: wikilinkOptions.mode,
+            sourcePath: promptPath,
+            listFiles: () => this.vaultIndex.listFiles(),
+          }
+        );
+        finalContent = linkResult.content;
+        unresolvedLinks = [
+          ...new Set([...unresolvedEmbeds, ...linkResult.unresolved]),
+        ];
+      }
+
+      // 7. Return the processed prompt - let the LLM decide what to do with it
+      return {
+        ...this.createSuccessResult(
+          promptPath,
+          finalContent,
+          rendered.variablesUsed,
+          rendered.missingVariables,
+          frontmatter,
+          unresolvedLinks,
+          wikilinkOptions !== null
+        ),
+        confidence: discovery.score ?? 1.0,
+        placeholders: rendered.placeholders,
+        candidates,
+        matchedBy: discovery.match,
+        ...(variableErrors.length > 0 && { warnings: variableErrors }),
+      };
     } catch (error) {
       console.error(`getPrompted error for '${promptName}':`, error);
-      return this.createErrorResult(error as Error, promptName);
+      return this.createErrorResult(
+        error as Error,
+        promptName,
+        error instanceof EnhancedMcpError ? error.details?.candidates : []
+      );
     }
   }
 
   /**
-   * Discover prompt using hierarchical search algorithm
+   * Resolve a prompt name to its file path using the same discovery
+   * cascade as getPrompted
    */
-  private async discoverPrompt(
-    name: string,
+  async resolvePromptPath(
+    promptName: string,
     searchPaths?: string[]
   ): Promise<string> {
-    const paths = searchPaths || [
-      this.config.promptsPath,
-      this.config.templatesPath,
-    ];
+    try {
+      return (await this.discoverPrompt(promptName, searchPaths)).path;
+    } catch (error: any) {
+      if (error instanceof EnhancedMcpError) throw error;
+      throw new EnhancedMcpError('prompt_not_found', error.message);
+    }
+  }
 
+  /**
+   * Discover a prompt by scoring every prompt in the search paths against
+   * each discovery strategy and ranking the hits
+   *
+   * A searchMode other than 'auto' restricts discovery to that one
+   * strategy. When the top two hits score within PROMPT_AMBIGUITY_MARGIN of
+   * each other an 'ambiguous_prompt' error carries the ranked candidates.
+   */
+  private async discoverPrompt(
+    name: string,
+    searchPaths?: string[],
+    searchMode: PromptOptions['searchMode'] = 'auto',
+    maxCandidates = DEFAULT_MAX_CANDIDATES
+  ): Promise<PromptDiscoveryResult> {
+    const paths = await this.getSearchPaths(searchPaths);
+
+    // Keep each prompt's best-scoring hit
+    const hitsByPath = new Map<string, PromptHit>();
     for (const basePath of paths) {
-      // 1. Exact filename match
-      const exactMatch = await this.findExactMatch(basePath, name);
-      if (exactMatch) return exactMatch;
-
-      // 2. Alias resolution via frontmatter
-      const aliasMatch = await this.findByAlias(basePath, name);
-      if (aliasMatch) return aliasMatch;
+      for (const hit of await this.findPromptHits(basePath, name, searchMode)) {
+        const existing = hitsByPath.get(hit.path);
+        if (!existing || hit.score > existing.score) {
+          hitsByPath.set(hit.path, hit);
+        }
+      }
+    }
 
-      // 3. Fuzzy filename search
-      const fuzzyMatch = await this.findFuzzyMatch(basePath, name);
-      if (fuzzyMatch) return fuzzyMatch;
+    const hits = [...hitsByPath.values()].sort(
+      (a, b) => b.score - a.score || a.name.localeCompare(b.name)
+    );
+    const candidates = hits.slice(0, maxCandidates);
+
+    if (
+      hits.length > 1 &&
+      hits[0].score - hits[1].score < PROMPT_AMBIGUITY_MARGIN
+    ) {
+      const names = candidates.map(hit => `${hit.name} (${hit.reason})`);
+      throw new EnhancedMcpError(
+        'ambiguous_prompt',
+        `Prompt '${name}' is ambiguous: ${names.join(', ')}`,
+        { candidates }
+      );
+    }
 
-      // 4. Content search
-      const contentMatch = await this.findByContent(basePath, name);
-      if (contentMatch) return contentMatch;
+    if (hits.length > 0) {
+      return {
+        path: hits[0].path,
+        match: hits[0].reason,
+        score: hits[0].score,
+        candidates,
+      };
     }
 
+    const modeText =
+      searchMode === 'auto' ? '' : ` (searchMode: ${searchMode})`;
+
     // If no matches found, provide helpful suggestions
     try {
       const absolutePaths = paths.map(path =>
@@ -154,7 +301,7 @@ export class PromptManager {
           ? ` Did you mean: ${suggestions.slice(0, 3).join(', ')}?`
           : '';
 
-      throw new Error(`Prompt not found: ${name}.${suggestionText}`);
+      throw new Error(`Prompt not found: ${name}${modeText}.${suggestionText}`);
     } catch (suggestionError: any) {
       // If suggestion generation fails, just return basic error
       if (suggestionError?.message?.startsWith('Prompt not found:')) {
@@ -162,232 +309,178 @@ export class PromptManager {
         throw suggestionError;
       }
       // This is a different error from suggestion generation
-      throw new Error(`Prompt not found: ${name}.`);
+      throw new Error(`Prompt not found: ${name}${modeText}.`);
     }
   }
 
-  // Discovery methods - implemented
-  private async findExactMatch(
+  /**
+   * Score the prompts in one search path, one hit per prompt for its
+   * best-scoring strategy
+   */
+  private async findPromptHits(
     basePath: string,
-    name: string
-  ): Promise<string | null> {
+    name: string,
+    searchMode: PromptOptions['searchMode']
+  ): Promise<PromptHit[]> {
     const searchPath = resolveVaultPath(
       basePath,
       this.config.allowedDirectories
     );
 
-    // Try common variations of the filename
-    const variations = [
-      name, // exact name
-      `${name}.md`, // with .md extension
-      `${name}.txt`, // with .txt extension
-      name.toLowerCase(), // lowercase
-      `${name.toLowerCase()}.md`, // lowercase with .md
-    ];
-
-    for (const variation of variations) {
-      try {
-        const validatedPath = validateVaultPath(
-          variation,
-          searchPath,
-          this.config.allowedDirectories
-        );
-        const pathInfo = await getPathInfo(validatedPath);
-
-        if (
-          pathInfo.exists &&
-          pathInfo.isFile &&
-          isAllowedFileType(validatedPath)
-        ) {
-          return validatedPath;
-        }
-      } catch {
-        // Continue trying other variations
-        continue;
-      }
-    }
-
-    return null;
-  }
-
-  private async findByAlias(
-    basePath: string,
-    name: string
-  ): Promise<string | null> {
+    let entries: VaultIndexEntry[];
     try {
-      const searchPath = resolveVaultPath(
-        basePath,
-        this.config.allowedDirectories
-      );
-
-      // Get all files in the directory
-      const entries = await readdir(searchPath, { withFileTypes: true });
-      const files = entries
-        .filter(entry => entry.isFile() && isAllowedFileType(entry.name))
-        .map(entry => join(searchPath, entry.name));
-
-      // Search through each file's aliases
-      for (const filePath of files) {
-        try {
-          const content = await readFile(filePath, 'utf-8');
-          const parsed = this.obsidianUtils.parseObsidianFile(content);
-
-          // Check aliases in frontmatter
-          const aliases = parsed.frontmatter.aliases || [];
-          const aliasArray = Array.isArray(aliases) ? aliases : [aliases];
-
-          // Check for exact alias match (case-insensitive)
-          for (const alias of aliasArray) {
-            if (
-              typeof alias === 'string' &&
-              alias.toLowerCase() === name.toLowerCase()
-            ) {
-              return filePath;
-            }
-          }
-        } catch {
-          // Skip files that can't be parsed
-          continue;
-        }
-      }
-
-      return null;
+      entries = await this.listPromptEntries(searchPath);
     } catch (error: any) {
       // Only log if it's not a simple "directory doesn't exist" error
       if (error.code !== 'ENOENT') {
-        console.warn(`Alias search error in ${basePath}:`, error);
+        console.warn(`Prompt search error in ${basePath}:`, error);
       }
-      return null;
+      return [];
     }
-  }
 
-  private async findFuzzyMatch(
-    basePath: string,
-    name: string
-  ): Promise<string | null> {
-    try {
-      const searchPath = resolveVaultPath(
-        basePath,
-        this.config.allowedDirectories
-      );
+    const strategies: [
+      PromptHit['reason'],
+      (entry: VaultIndexEntry) => number,
+    ][] = [
+      // 1. Exact filename match
+      ['exact', entry => this.scoreByExactName(searchPath, entry, name)],
+      // 2. Relative path match for `folder/name` queries
+      [
+        'path',
+        entry =>
+          this.scoreByPath(searchPath, entry, name, searchMode === 'path'),
+      ],
+      // 3. Alias resolution via frontmatter
+      ['alias', entry => this.scoreByAlias(entry, name)],
+      // 4. Fuzzy filename search
+      ['fuzzy', entry => this.scoreByFuzzyName(searchPath, entry, name)],
+      // 5. Content search
+      ['content', entry => this.scoreByContent(entry, name)],
+    ];
 
-      // Get all files in the directory
-      const entries = await readdir(searchPath, { withFileTypes: true });
-      const files = entries
-        .filter(entry => entry.isFile() && isAllowedFileType(entry.name))
-        .map(entry => ({
-          name: entry.name,
-          path: join(searchPath, entry.name),
-        }));
-
-      // Calculate fuzzy match scores
-      const matches = files
-        .map(file => ({
-          ...file,
-          score: this.calculateFuzzyScore(
-            name.toLowerCase(),
-            file.name.toLowerCase()
-          ),
-        }))
-        .filter(file => file.score > this.config.promptFuzzyMatchThreshold!) // Minimum threshold
-        .sort((a, b) => b.score - a.score);
+    const hits: PromptHit[] = [];
+    for (const entry of entries) {
+      let best: { reason: PromptHit['reason']; score: number } | null = null;
 
-      if (matches.length > 0) {
-        // Validate the best match
-        const bestMatch = matches[0];
-        const pathInfo = await getPathInfo(bestMatch.path);
+      for (const [reason, score] of strategies) {
+        if (searchMode !== 'auto' && searchMode !== reason) continue;
 
-        if (pathInfo.exists && pathInfo.isFile) {
-          return bestMatch.path;
+        const value = score(entry) * STRATEGY_WEIGHTS[reason];
+        if (value > 0 && (!best || value > best.score)) {
+          best = { reason, score: value };
         }
       }
 
-      return null;
-    } catch (error: any) {
-      // Only log if it's not a simple "directory doesn't exist" error
-      if (error.code !== 'ENOENT') {
-        console.warn(`Fuzzy match error in ${basePath}:`, error);
+      if (best) {
+        hits.push({
+          id: basename(entry.name, extname(entry.name)),
+          name: this.toPromptPath(searchPath, entry.path),
+          path: entry.path,
+          score: best.score,
+          reason: best.reason,
+          title: entry.title,
+          aliases: entry.aliases,
+          tags: entry.tags,
+        });
       }
-      return null;
     }
+
+    return hits;
   }
 
-  private async findByContent(
-    basePath: string,
-    name: string
-  ): Promise<string | null> {
-    try {
-      const searchPath = resolveVaultPath(
-        basePath,
-        this.config.allowedDirectories
-      );
+  // Discovery strategies - each scores one prompt from 0 to 1
 
-      // Get all files in the directory
-      const entries = await readdir(searchPath, { withFileTypes: true });
-      const files = entries
-        .filter(entry => entry.isFile() && isAllowedFileType(entry.name))
-        .map(entry => join(searchPath, entry.name));
+  /**
+   * Filename equal to the query, preferring prompts directly in the
+   * search path over the same name in a nested folder
+   */
+  private scoreByExactName(
+    searchPath: string,
+    entry: VaultIndexEntry,
+    name: string
+  ): number {
+    const wanted = name.toLowerCase();
+    const fileName = entry.name.toLowerCase();
+    if (fileName !== wanted && fileName.replace(/\.(md|txt)$/, '') !== wanted) {
+      return 0;
+    }
 
-      const searchLower = name.toLowerCase();
-      const matches: { path: string; score: number }[] = [];
+    return this.toPromptPath(searchPath, entry.path).includes('/')
+      ? NESTED_EXACT_SCORE
+      : 1.0;
+  }
 
-      // Search through each file's content and title
-      for (const filePath of files) {
-        try {
-          const content = await readFile(filePath, 'utf-8');
-          const parsed = this.obsidianUtils.parseObsidianFile(content);
+  /**
+   * Match a `folder/name` query against prompt paths, relative to the
+   * search path or the vault root, ignoring the file extension
+   *
+   * Queries without a folder are only matched when path search was
+   * explicitly requested. A full path outranks a matching path suffix.
+   */
+  private scoreByPath(
+    searchPath: string,
+    entry: VaultIndexEntry,
+    name: string,
+    allowBareNames: boolean
+  ): number {
+    const wanted = name
+      .replace(/\\/g, '/')
+      .replace(/^\/+|\/+$/g, '')
+      .replace(/\.(md|txt)$/i, '')
+      .toLowerCase();
+    if (!wanted.includes('/') && !allowBareNames) return 0;
+
+    const promptPath = this.toPromptPath(searchPath, entry.path).toLowerCase();
+    const vaultPath = entry.relativePath
+      .replace(/\.(md|txt)$/i, '')
+      .toLowerCase();
+    if (promptPath === wanted || vaultPath === wanted) return 1.0;
+
+    return vaultPath.endsWith(`/${wanted}`) ? PATH_SUFFIX_SCORE : 0;
+  }
 
-          let score = 0;
+  private scoreByAlias(entry: VaultIndexEntry, name: string): number {
+    // Check for exact alias match (case-insensitive)
+    return entry.aliases.some(
+      alias => alias.toLowerCase() === name.toLowerCase()
+    )
+      ? 1.0
+      : 0;
+  }
 
-          // Check title in frontmatter
-          const title = parsed.frontmatter.title;
-          if (title && typeof title === 'string') {
-            if (title.toLowerCase().includes(searchLower)) {
-              score += 0.8 * (searchLower.length / title.length);
-            }
-          }
+  private scoreByFuzzyName(
+    searchPath: string,
+    entry: VaultIndexEntry,
+    name: string
+  ): number {
+    // Score against the relative path for `folder/name` queries
+    const target = name.includes('/')
+      ? this.toPromptPath(searchPath, entry.path)
+      : entry.name;
+    const score = calculateFuzzyScore(name.toLowerCase(), target.toLowerCase());
+
+    return score > this.config.promptFuzzyMatchThreshold! ? score : 0;
+  }
 
-          // Check content (but weight it lower than title)
-          const contentLower = parsed.content.toLowerCase();
-          if (contentLower.includes(searchLower)) {
-            // Count occurrences but cap the influence
-            // Escape special regex characters to prevent regex injection
-            const escapedSearch = searchLower.replace(
-              /[.*+?^${}()|[\]\\]/g,
-              '\\$&'
-            );
-            const occurrences = (
-              contentLower.match(new RegExp(escapedSearch, 'g')) || []
-            ).length;
-            score += Math.min(0.5, occurrences * 0.1);
-          }
+  private scoreByContent(entry: VaultIndexEntry, name: string): number {
+    const searchLower = name.toLowerCase();
 
-          if (score > 0) {
-            matches.push({ path: filePath, score });
-          }
-        } catch {
-          // Skip files that can't be parsed
-          continue;
-        }
-      }
+    // Check title in frontmatter (weighted above content matches)
+    const title = entry.frontmatter.title;
+    const titleMatches =
+      typeof title === 'string' && title.toLowerCase().includes(searchLower);
+    const occurrences = (entry.content.match(createSearchRegExp(name)) || [])
+      .length;
 
-      // Return the best match if above threshold
-      if (matches.length > 0) {
-        matches.sort((a, b) => b.score - a.score);
-        const bestMatch = matches[0];
-        if (bestMatch.score > this.config.promptSuggestionThreshold!) {
-          return bestMatch.path;
-        }
-      }
+    const score = scoreContentMatch(
+      titleMatches ? searchLower.length : 0,
+      typeof title === 'string' ? title.length : 0,
+      occurrences
+    );
 
-      return null;
-    } catch (error: any) {
-      // Only log if it's not a simple "directory doesn't exist" error
-      if (error.code !== 'ENOENT') {
-        console.warn(`Content search error in ${basePath}:`, error);
-      }
-      return null;
-    }
+    return score > this.config.promptSuggestionThreshold!
+      ? Math.min(1, score)
+      : 0;
   }
 
   /**
@@ -403,45 +496,29 @@ export class PromptManager {
           ? basePath
           : resolveVaultPath(basePath, this.config.allowedDirectories);
 
-        const entries = await readdir(searchPath, { withFileTypes: true });
-        const files = entries
-          .filter(entry => entry.isFile() && isAllowedFileType(entry.name))
-          .map(entry => ({
-            name: entry.name.replace(/\.(md|txt)$/, ''),
-            path: join(searchPath, entry.name),
-          }));
+        const files = await this.listPromptEntries(searchPath);
 
-        // Calculate scores for all files
+        // Calculate scores for all files, suggesting nested prompts by path
         for (const file of files) {
-          const score = this.calculateFuzzyScore(
+          const fileName = this.toPromptPath(searchPath, file.path);
+          const score = calculateFuzzyScore(
             name.toLowerCase(),
-            file.name.toLowerCase()
+            fileName.toLowerCase()
           );
           if (score > this.config.promptSuggestionThreshold!) {
             // Lower threshold for suggestions
-            allSuggestions.push({ name: file.name, score });
+            allSuggestions.push({ name: fileName, score });
           }
 
           // Also check aliases for suggestions
-          try {
-            const content = await readFile(file.path, 'utf-8');
-            const parsed = this.obsidianUtils.parseObsidianFile(content);
-            const aliases = parsed.frontmatter.aliases || [];
-            const aliasArray = Array.isArray(aliases) ? aliases : [aliases];
-
-            for (const alias of aliasArray) {
-              if (typeof alias === 'string') {
-                const aliasScore = this.calculateFuzzyScore(
-                  name.toLowerCase(),
-                  alias.toLowerCase()
-                );
-                if (aliasScore > this.config.promptSuggestionThreshold!) {
-                  allSuggestions.push({ name: alias, score: aliasScore * 0.9 }); // Slightly lower score for aliases
-                }
-              }
+          for (const alias of file.aliases) {
+            const aliasScore = calculateFuzzyScore(
+              name.toLowerCase(),
+              alias.toLowerCase()
+            );
+            if (aliasScore > this.config.promptSuggestionThreshold!) {
+              allSuggestions.push({ name: alias, score: aliasScore * 0.9 }); // Slightly lower score for aliases
             }
-          } catch {
-            // Skip files that can't be parsed
           }
         }
       } catch {
@@ -458,80 +535,74 @@ export class PromptManager {
   }
 
   /**
-   * Calculate fuzzy match score between search term and filename
+   * Search paths for discovery and listing, defaulting to the configured
+   * prompts and templates folders. Caller-supplied paths must stay inside
+   * the vault and are returned vault-relative.
    */
-  private calculateFuzzyScore(search: string, filename: string): number {
-    // Remove file extensions for scoring
-    const cleanFilename = filename.replace(/\.(md|txt)$/, '');
-
-    // Exact match gets highest score
-    if (cleanFilename === search) return 1.0;
-
-    // Check for substring matches
-    if (cleanFilename.includes(search)) {
-      return 0.8 * (search.length / cleanFilename.length);
+  private async getSearchPaths(searchPaths?: string[]): Promise<string[]> {
+    if (!searchPaths) {
+      return [this.config.promptsPath, this.config.templatesPath];
     }
 
-    // Check for word boundary matches
-    const searchWords = search.split(/[\s-_]+/);
-    const filenameWords = cleanFilename.split(/[\s-_]+/);
-
-    let matchedWords = 0;
-    for (const searchWord of searchWords) {
-      for (const filenameWord of filenameWords) {
-        if (
-          filenameWord.includes(searchWord) ||
-          searchWord.includes(filenameWord)
-        ) {
-          matchedWords++;
-          break;
+    const vaultRoot = this.config.allowedDirectories[0];
+    return Promise.all(
+      searchPaths.map(async searchPath => {
+        try {
+          const validPath = await validateRealPath(
+            validateVaultPath(
+              searchPath,
+              vaultRoot,
+              this.config.allowedDirectories
+            ),
+            this.config.allowedDirectories
+          );
+          return relative(vaultRoot, validPath).split(sep).join('/') || '.';
+        } catch (error: any) {
+          throw new EnhancedMcpError(
+            'invalid_search_path',
+            `Search path '${searchPath}' is outside the vault: ${error.message}`,
+            { searchPath }
+          );
         }
-      }
-    }
-
-    if (matchedWords > 0) {
-      return 0.6 * (matchedWords / searchWords.length);
-    }
-
-    // Check for character overlap (basic Levenshtein-like)
-    const commonChars = this.countCommonCharacters(search, cleanFilename);
-    const maxLen = Math.max(search.length, cleanFilename.length);
-    const charScore = commonChars / maxLen;
-
-    return charScore > 0.4 ? charScore * 0.5 : 0;
+      })
+    );
   }
 
   /**
-   * Count common characters between two strings
+   * List the prompts under a search path, honoring the configured folder
+   * depth and ignore patterns
    */
-  private countCommonCharacters(str1: string, str2: string): number {
-    const chars1 = str1.split('').sort();
-    const chars2 = str2.split('').sort();
-    let common = 0;
-    let i = 0,
-      j = 0;
-
-    while (i < chars1.length && j < chars2.length) {
-      if (chars1[i] === chars2[j]) {
-        common++;
-        i++;
-        j++;
-      } else if (chars1[i] < chars2[j]) {
-        i++;
-      } else {
-        j++;
-      }
-    }
+  private async listPromptEntries(
+    searchPath: string
+  ): Promise<VaultIndexEntry[]> {
+    return this.vaultIndex.getEntries(searchPath, {
+      maxDepth: this.config.promptSearchDepth ?? 5,
+      excludePatterns: this.config.promptIgnorePatterns ?? [
+        '.obsidian',
+        '.trash',
+        'archive',
+      ],
+    });
+  }
 
-    return common;
+  /**
+   * Path of a prompt relative to its search path, without extension
+   */
+  private toPromptPath(searchPath: string, filePath: string): string {
+    return relative(searchPath, filePath)
+      .split(sep)
+      .join('/')
+      .replace(/\.(md|txt)$/, '');
   }
 
   /**
    * Load and parse a prompt file from the filesystem
    */
-  async loadPromptFile(
-    filePath: string
-  ): Promise<{ content: string; frontmatter: Record<string, any> }> {
+  async loadPromptFile(filePath: string): Promise<{
+    content: string;
+    frontmatter: Record<string, any>;
+    tags: string[];
+  }> {
     try {
       const content = await readFile(filePath, 'utf-8');
       const parsed = this.obsidianUtils.parseObsidianFile(content);
@@ -539,6 +610,7 @@ export class PromptManager {
       return {
         content: parsed.content,
         frontmatter: parsed.frontmatter,
+        tags: parsed.tags,
       };
     } catch (error: any) {
       throw new Error(
@@ -548,122 +620,243 @@ export class PromptManager {
   }
 
   /**
-   * List all prompt files in a directory (for future use)
+   * List the prompts in the search paths with their metadata, optionally
+   * filtered by folder and tags and paginated with offset/limit
    */
-  async listPromptFiles(directoryPath: string): Promise<string[]> {
-    try {
-      const validatedPath = validateVaultPath(
-        directoryPath,
-        this.config.allowedDirectories[0],
+  async listPrompts(
+    options: ListPromptsOptions = {}
+  ): Promise<{ prompts: PromptSummary[]; total: number }> {
+    const folder = options.folder
+      ?.replace(/\\/g, '/')
+      .replace(/^\/+|\/+$/g, '')
+      .toLowerCase();
+    const seen = new Set<string>();
+    const names = new Set<string>();
+    const prompts: PromptSummary[] = [];
+
+    for (const basePath of await this.getSearchPaths(options.searchPaths)) {
+      const searchPath = resolveVaultPath(
+        basePath,
         this.config.allowedDirectories
       );
-      const entries = await readdir(validatedPath, { withFileTypes: true });
 
-      return entries
-        .filter(entry => entry.isFile() && isAllowedFileType(entry.name))
-        .map(entry => join(validatedPath, entry.name));
-    } catch (error: any) {
-      console.warn(
-        `Failed to list prompt files in '${directoryPath}': ${error.message}`
-      );
-      return [];
+      for (const entry of await this.listPromptEntries(searchPath)) {
+        if (seen.has(entry.path)) continue;
+        seen.add(entry.path);
+
+        const name = this.toPromptPath(searchPath, entry.path);
+        if (options.uniqueNames && names.has(name)) continue;
+        names.add(name);
+        if (folder && !name.toLowerCase().startsWith(`${folder}/`)) continue;
+
+        if (options.tags && options.tags.length > 0) {
+          const noteTags = [
+            ...entry.tags,
+            ...this.obsidianUtils.extractInlineTags(entry.content),
+          ];
+          if (
+            !options.tags.every(tag => this.obsidianUtils.hasTag(noteTags, tag))
+          ) {
+            continue;
+          }
+        }
+
+        prompts.push({
+          name,
+          path: entry.path,
+          searchPath: basePath,
+          title: entry.title,
+          aliases: entry.aliases,
+          tags: entry.tags,
+          description:
+            typeof entry.frontmatter.description === 'string'
+              ? entry.frontmatter.description
+              : undefined,
+          variables: this.obsidianUtils.extractVariableSpecs(entry.frontmatter),
+        });
+      }
     }
+
+    const offset = options.offset ?? 0;
+    return {
+      prompts: prompts.slice(
+        offset,
+        offset + (options.limit ?? prompts.length)
+      ),
+      total: prompts.length,
+    };
   }
 
   // Processing methods - implemented
+  /**
+   * Coerce provided variables to their spec types and collect validation
+   * errors. Missing required variables are handled before this runs, so a
+   * required variable only fails here when it was sent empty.
+   */
   private validateVariables(
-    specs: any,
+    specs: VariableSpec[],
     providedVars: Record<string, any>
-  ): { isValid: boolean; missing: string[]; errors: string[] } {
-    // If specs is not an array of VariableSpec, convert it
-    const variableSpecs = Array.isArray(specs)
-      ? specs
-      : this.obsidianUtils.extractVariableSpecs({ 'prompt-vars': specs });
-
-    const validation = this.obsidianUtils.validateVariables(
-      variableSpecs,
-      providedVars
-    );
+  ): { variables: Record<string, any>; errors: string[] } {
+    const variables = this.obsidianUtils.coerceVariables(specs, providedVars);
+    const validation = this.obsidianUtils.validateVariables(specs, variables);
 
     return {
-      isValid: validation.isValid,
-      missing: validation.missing.map(spec => spec.name),
-      errors: validation.errors,
-    };
-  }
-
-  private resolveTemplaterSyntax(
-    content: string,
-    variables: Record<string, any>,
-    filePath?: string
-  ): string {
-    return this.templateProcessor.processTemplate(
-      content,
       variables,
-      {},
-      filePath
-    );
+      errors: [
+        ...validation.missing.map(
+          spec => `Variable '${spec.name}': required value is empty`
+        ),
+        ...validation.errors,
+      ],
+    };
   }
 
   /**
-   * Enhanced variable substitution with support for various formats
+   * Give Templater syntax the prompt file's stat, frontmatter and tags as
+   * tp.file.* and tp.frontmatter
    */
-  private substituteVariables(
-    content: string,
-    variables: Record<string, any>
-  ): {
-    content: string;
-    usedVariables: Record<string, any>;
-    missingVariables: string[];
-  } {
-    const usedVariables: Record<string, any> = {};
-    const missingVariables: string[] = [];
-
-    // Handle {{variable}} and {{variable:default}} syntax
-    const processedContent = content.replace(
-      /\{\{([^}]+)\}\}/g,
-      (match, varExpression) => {
-        const [varName, defaultValue] = varExpression
-          .split(':')
-          .map((s: string) => s.trim());
-
-        if (varName in variables) {
-          const value = variables[varName];
-          usedVariables[varName] = value;
-          return String(value);
-        } else if (defaultValue !== undefined) {
-          usedVariables[varName] = defaultValue;
-          return defaultValue;
-        } else {
-          missingVariables.push(varName);
-          return match; // Keep original placeholder
-        }
-      }
-    );
+  private async createTemplateContext(
+    filePath: string,
+    prompt: {
+      content: string;
+      frontmatter: Record<string, any>;
+      tags: string[];
+    },
+    templater: boolean
+  ): Promise<Partial<TemplateContext>> {
+    // One timestamp for defaults and content alike
+    const context: Partial<TemplateContext> = { currentDate: new Date() };
+    if (!templater) return context;
+
+    const stats = await stat(filePath);
+    const tags = new Set([
+      ...prompt.tags,
+      ...this.obsidianUtils.extractInlineTags(prompt.content),
+    ]);
 
     return {
-      content: processedContent,
-      usedVariables,
-      missingVariables: [...new Set(missingVariables)], // Remove duplicates
+      ...context,
+      file: {
+        path: filePath,
+        frontmatter: prompt.frontmatter,
+        tags: [...tags],
+        created: stats.birthtime,
+        modified: stats.mtime,
+      },
     };
   }
 
   /**
-   * Merge variables with defaults from variable specifications
+   * Combine provided variables with spec defaults, recording the source
+   * of each value
+   *
+   * String defaults are rendered as templates, so `tp.date.now()` or
+   * `"{{client_name}} session"` are evaluated and then coerced to the
+   * spec's type. Defaults that reference other defaults are resolved in
+   * dependency order; a loop of references is a 'default_cycle' error.
    */
-  private mergeVariablesWithDefaults(
+  private createTemplateVariables(
     variables: Record<string, any>,
-    specs: any[]
-  ): Record<string, any> {
-    const merged = { ...variables };
+    specs: VariableSpec[],
+    context: Partial<TemplateContext>,
+    templater: boolean
+  ): Record<string, TemplateVariable> {
+    const templateVariables: Record<string, TemplateVariable> = {};
+    for (const [name, value] of Object.entries(variables)) {
+      templateVariables[name] = { name, value, source: 'user' };
+    }
 
-    for (const spec of specs) {
-      if (spec.default !== undefined && !(spec.name in merged)) {
-        merged[spec.name] = spec.default;
+    const pending = new Map(
+      specs
+        .filter(
+          spec =>
+            spec.default !== undefined && !(spec.name in templateVariables)
+        )
+        .map(spec => [spec.name, spec])
+    );
+    const resolving: string[] = [];
+
+    const resolve = (name: string): void => {
+      const spec = pending.get(name);
+      if (!spec || name in templateVariables) return;
+      if (resolving.includes(name)) {
+        const cycle = [...resolving.slice(resolving.indexOf(name)), name];
+        throw new EnhancedMcpError(
+          'default_cycle',
+          `Variable defaults reference each other in a loop: ${cycle.join(' -> ')}`,
+          { cycle }
+        );
       }
+
+      let value = spec.default;
+      if (typeof value === 'string') {
+        resolving.push(name);
+        for (const dependency of this.findDefaultDependencies(
+          value,
+          templater
+        )) {
+          resolve(dependency);
+        }
+        resolving.pop();
+
+        const rendered = this.templateProcessor.render(
+          value,
+          { ...context, variables: { ...templateVariables } },
+          { templater }
+        ).content;
+        value = this.obsidianUtils.coerceVariables(
+          [spec],
+          { [name]: rendered },
+          context.currentDate
+        )[name];
+      }
+      templateVariables[name] = { name, value, source: 'default' };
+    };
+
+    for (const name of pending.keys()) resolve(name);
+    return templateVariables;
+  }
+
+  /**
+   * Variable names a default refers to in placeholders or, when Templater
+   * syntax is rendered, <% %> tags. The `tp` helpers, property names and
+   * string contents are not variables.
+   */
+  private findDefaultDependencies(value: string, templater: boolean): string[] {
+    const names = new Set(listPlaceholderNames(value));
+    if (!templater) return [...names];
+
+    for (const name of listTemplateVariables(value)) {
+      if (name !== 'tp') names.add(name);
     }
+    return [...names];
+  }
+
+  /**
+   * Decide whether and how to resolve wikilinks for this request
+   * Explicit resolveWikilinks wins over includeWikilinks and the vault config
+   */
+  private getWikilinkOptions(
+    options: PromptOptions
+  ): { mode: 'markdown' | 'path' } | null {
+    const setting =
+      options.resolveWikilinks ??
+      (options.includeWikilinks || this.config.wikilinkResolution);
 
-    return merged;
+    if (!setting) return null;
+    if (setting === true) return { mode: 'markdown' };
+
+    return { mode: setting.mode || 'markdown' };
+  }
+
+  /**
+   * Embeds are transcluded unless explicitly disabled with `embed: false`
+   */
+  private shouldTranscludeEmbeds(options: PromptOptions): boolean {
+    return !(
+      typeof options.resolveWikilinks === 'object' &&
+      options.resolveWikilinks.embed === false
+    );
   }
 
   /**
@@ -754,9 +947,11 @@ Please provide values for these variables and call get_prompted again with the v
   private createSuccessResult(
     promptPath: string,
     processedContent: string,
-    usedVariables: Record<string, any>,
+    usedVariables: Record<string, UsedVariable>,
     missingVariables: string[],
-    frontmatter: Record<string, any>
+    frontmatter: Record<string, any>,
+    unresolvedLinks: string[] = [],
+    wikilinkResolution: boolean = false
   ): GetPromptedResult {
     const fileName = basename(promptPath, extname(promptPath));
     const parsed = this.obsidianUtils.parseObsidianFile(
@@ -783,10 +978,10 @@ Please provide values for these variables and call get_prompted again with the v
         frontmatter
       ),
       candidates: [],
-      unresolvedLinks: [],
+      unresolvedLinks,
       processing: {
         templaterProcessed: this.config.templaterLite || false,
-        wikilinkResolution: false,
+        wikilinkResolution,
         variableInterpolation: true,
       },
       actionRecommendations: [], // No automatic action detection
@@ -0,0 +1,271 @@
+/**
+ * MCP resource support
+ *
+ * Exposes vault notes as `vault://` resources, offers URI templates for
+ * tasks and prompts, and watches subscribed notes so the server can send
+ * `resources/updated` notifications when they change on disk.
+ */
+
+import { watch, FSWatcher } from 'fs';
+import { readFile } from 'fs/promises';
+import { dirname, extname, join } from 'path';
+import { setTimeout, clearTimeout } from 'timers';
+import { VaultConfig, EnhancedMcpError } from './types.js';
+import { VaultIndex } from './vault.js';
+import {
+  validateVaultPath,
+  validateRealPath,
+  getPathInfo,
+  isAllowedFileType,
+} from './security.js';
+
+const VAULT_URI_PREFIX = 'vault://';
+const MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.txt': 'text/plain',
+  '.json': 'application/json',
+};
+// Editors often write a file several times in a row when saving
+const UPDATE_DEBOUNCE_MS = 100;
+
+export interface VaultResource {
+  uri: string;
+  name: string;
+  title: string;
+  mimeType: string;
+  description?: string;
+}
+
+export interface VaultResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title: string;
+  description: string;
+  mimeType: string;
+}
+
+export class ResourceManager {
+  private subscriptions = new Map<
+    string,
+    { uri: string; notify: (uri: string) => void }
+  >();
+  private watchers = new Map<string, FSWatcher>();
+  private pendingUpdates = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(
+    private config: VaultConfig,
+    private vaultIndex: VaultIndex
+  ) {}
+
+  /**
+   * List vault notes as resources, paginated with an offset cursor
+   */
+  async listResources(
+    offset: number,
+    limit: number
+  ): Promise<{ resources: VaultResource[]; total: number }> {
+    const entries = await this.vaultIndex.getEntries(this.vaultRoot, {
+      maxDepth: Number.POSITIVE_INFINITY,
+    });
+
+    return {
+      resources: entries.slice(offset, offset + limit).map(entry => ({
+        uri: this.toUri(entry.relativePath),
+        name: entry.relativePath,
+        title: entry.title,
+        mimeType: this.getMimeType(entry.path),
+        description:
+          typeof entry.frontmatter.description === 'string'
+            ? entry.frontmatter.description
+            : undefined,
+      })),
+      total: entries.length,
+    };
+  }
+
+  /**
+   * URI templates for addressing tasks and prompts by name
+   */
+  listResourceTemplates(): VaultResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${this.toUri(this.config.tasksPath)}/{name}.md`,
+        name: 'task',
+        title: 'Task',
+        description: 'A task note in the tasks folder',
+        mimeType: MIME_TYPES['.md'],
+      },
+      {
+        uriTemplate: `${this.toUri(this.config.promptsPath)}/{name}.md`,
+        name: 'prompt',
+        title: 'Prompt',
+        description: 'A prompt file in the prompts folder',
+        mimeType: MIME_TYPES['.md'],
+      },
+    ];
+  }
+
+  /**
+   * Read a note by its `vault://` URI
+   */
+  async readResource(
+    uri: string
+  ): Promise<{ uri: string; mimeType: string; text: string }> {
+    const path = await this.resolveUri(uri);
+    const pathInfo = await getPathInfo(path);
+
+    if (!pathInfo.exists || !pathInfo.isFile) {
+      throw new EnhancedMcpError(
+        'resource_not_found',
+        `Resource not found: ${uri}`
+      );
+    }
+    if (!isAllowedFileType(path)) {
+      throw new EnhancedMcpError(
+        'unsupported_resource',
+        `Only ${Object.keys(MIME_TYPES).join(', ')} files can be read as resources: ${uri}`
+      );
+    }
+
+    return {
+      uri,
+      mimeType: this.getMimeType(path),
+      text: await readFile(path, 'utf-8'),
+    };
+  }
+
+  /**
+   * Watch a note and call `notify` with its URI whenever it changes
+   *
+   * The note's folder is watched rather than the file itself, so notes
+   * replaced by an atomic save (write to temp, rename) keep notifying.
+   */
+  async subscribe(uri: string, notify: (uri: string) => void): Promise<void> {
+    const path = await this.resolveUri(uri);
+    const directory = dirname(path);
+    const directoryInfo = await getPathInfo(directory);
+
+    if (!directoryInfo.isDirectory) {
+      throw new EnhancedMcpError(
+        'resource_not_found',
+        `Cannot subscribe to ${uri}: folder does not exist`
+      );
+    }
+
+    this.subscriptions.set(path, { uri, notify });
+
+    if (!this.watchers.has(directory)) {
+      const watcher = watch(directory, (_event, filename) => {
+        if (filename) {
+          this.queueUpdate(join(directory, filename.toString()));
+        }
+      });
+      watcher.on('error', () => {
+        // Folder removed - drop the watcher, subscriptions stay registered
+        watcher.close();
+        this.watchers.delete(directory);
+      });
+      watcher.unref();
+      this.watchers.set(directory, watcher);
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    const path = this.toVaultPath(uri);
+    this.subscriptions.delete(path);
+    clearTimeout(this.pendingUpdates.get(path));
+    this.pendingUpdates.delete(path);
+
+    const directory = dirname(path);
+    const stillWatched = [...this.subscriptions.keys()].some(
+      subscribed => dirname(subscribed) === directory
+    );
+    if (!stillWatched) {
+      this.watchers.get(directory)?.close();
+      this.watchers.delete(directory);
+    }
+  }
+
+  /**
+   * Stop all watchers and drop pending notifications
+   */
+  close(): void {
+    for (const watcher of this.watchers.values()) watcher.close();
+    for (const timer of this.pendingUpdates.values()) clearTimeout(timer);
+    this.watchers.clear();
+    this.pendingUpdates.clear();
+    this.subscriptions.clear();
+  }
+
+  private queueUpdate(path: string): void {
+    const subscription = this.subscriptions.get(path);
+    if (!subscription) return;
+
+    clearTimeout(this.pendingUpdates.get(path));
+    this.pendingUpdates.set(
+      path,
+      setTimeout(() => {
+        this.pendingUpdates.delete(path);
+        subscription.notify(subscription.uri);
+      }, UPDATE_DEBOUNCE_MS)
+    );
+  }
+
+  /**
+   * Convert a `vault://` URI to an absolute path inside the vault, refusing
+   * symlinks that lead outside it
+   */
+  private async resolveUri(uri: string): Promise<string> {
+    return validateRealPath(
+      this.toVaultPath(uri),
+      this.config.allowedDirectories
+    );
+  }
+
+  /**
+   * Convert a `vault://` URI to an absolute path, checked as text only
+   */
+  private toVaultPath(uri: string): string {
+    if (!uri.startsWith(VAULT_URI_PREFIX)) {
+      throw new EnhancedMcpError(
+        'invalid_resource_uri',
+        `Resource URIs must start with ${VAULT_URI_PREFIX}: ${uri}`
+      );
+    }
+
+    let relativePath: string;
+    try {
+      relativePath = uri
+        .slice(VAULT_URI_PREFIX.length)
+        .split('/')
+        .map(decodeURIComponent)
+        .join('/');
+    } catch {
+      throw new EnhancedMcpError(
+        'invalid_resource_uri',
+        `Malformed resource URI: ${uri}`
+      );
+    }
+
+    return validateVaultPath(
+      relativePath,
+      this.vaultRoot,
+      this.config.allowedDirectories
+    );
+  }
+
+  private toUri(relativePath: string): string {
+    return (
+      VAULT_URI_PREFIX +
+      relativePath.split('/').filter(Boolean).map(encodeURIComponent).join('/')
+    );
+  }
+
+  private getMimeType(path: string): string {
+    return MIME_TYPES[extname(path).toLowerCase()] || 'text/plain';
+  }
+
+  private get vaultRoot(): string {
+    return this.config.allowedDirectories[0];
+  }
+}
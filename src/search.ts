@@ -0,0 +1,469 @@
+/**
+ * Vault search utilities
+ *
+ * Provides a recursive directory walker that stays inside the allowed
+ * directories, glob and substring pattern matching, fuzzy name scoring,
+ * and ranked full-text content search used by the search tools.
+ */
+
+import { readFile, readdir, realpath, stat } from 'fs/promises';
+import { join, relative, sep } from 'path';
+import type { ObsidianUtils } from './obsidian.js';
+import {
+  validateAndNormalizePath,
+  validateRealPath,
+  isAllowedFileType,
+} from './security.js';
+
+/**
+ * A single entry produced while walking a directory tree
+ */
+export interface WalkEntry {
+  path: string;
+  relativePath: string;
+  name: string;
+  isDirectory: boolean;
+}
+
+export interface WalkOptions {
+  allowedDirectories: string[];
+  excludePatterns?: string[];
+  // Folder levels to descend below the root (0 = root entries only)
+  maxDepth?: number;
+}
+
+/**
+ * Check whether a pattern uses glob syntax rather than a plain substring
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?[\]{}]/.test(pattern);
+}
+
+/**
+ * Convert a glob pattern into a case-insensitive regular expression
+ * Supports `**`, `*`, `?`, `[abc]`, `[!abc]` and `{a,b}` alternation
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    switch (char) {
+      case '*':
+        if (pattern[i + 1] === '*') {
+          // `**/` matches zero or more directories, bare `**` matches anything
+          if (pattern[i + 2] === '/') {
+            regex += '(?:.*/)?';
+            i += 2;
+          } else {
+            regex += '.*';
+            i += 1;
+          }
+        } else {
+          regex += '[^/]*';
+        }
+        break;
+      case '?':
+        regex += '[^/]';
+        break;
+      case '[': {
+        const end = pattern.indexOf(']', i + 1);
+        if (end === -1) {
+          regex += '\\[';
+          break;
+        }
+        let body = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+        if (body.startsWith('!')) {
+          body = `^${body.slice(1)}`;
+        }
+        regex += `[${body}]`;
+        i = end;
+        break;
+      }
+      case '{':
+        braceDepth++;
+        regex += '(?:';
+        break;
+      case '}':
+        if (braceDepth > 0) {
+          braceDepth--;
+          regex += ')';
+        } else {
+          regex += '\\}';
+        }
+        break;
+      case ',':
+        regex += braceDepth > 0 ? '|' : ',';
+        break;
+      default:
+        regex += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${regex}$`, 'i');
+}
+
+/**
+ * Match an entry against a search pattern
+ *
+ * Glob patterns containing a slash are matched against the relative path,
+ * other globs against the entry name. Plain patterns are case-insensitive
+ * substring matches on the entry name.
+ */
+export function matchesPattern(
+  relativePath: string,
+  name: string,
+  pattern: string
+): boolean {
+  if (!isGlobPattern(pattern)) {
+    return name.toLowerCase().includes(pattern.toLowerCase());
+  }
+
+  const regex = globToRegExp(pattern);
+  return pattern.includes('/') ? regex.test(relativePath) : regex.test(name);
+}
+
+/**
+ * Check whether an entry should be excluded
+ *
+ * Plain exclude patterns (e.g. `.obsidian`) exclude any entry with a path
+ * segment of that name; glob patterns are matched like search patterns.
+ */
+export function isExcluded(
+  relativePath: string,
+  name: string,
+  excludePatterns: string[]
+): boolean {
+  return excludePatterns.some(pattern => {
+    if (isGlobPattern(pattern)) {
+      return matchesPattern(relativePath, name, pattern);
+    }
+    const target = pattern.toLowerCase();
+    return relativePath
+      .toLowerCase()
+      .split('/')
+      .some(segment => segment === target);
+  });
+}
+
+/**
+ * Recursively walk a directory, yielding files and directories
+ *
+ * Symlinks are resolved and only followed when their target stays within
+ * the allowed directories, including a symlinked starting folder. Each real
+ * directory is visited at most once, so symlink loops cannot cause infinite
+ * recursion.
+ */
+export async function* walkDirectory(
+  rootPath: string,
+  options: WalkOptions
+): AsyncGenerator<WalkEntry> {
+  const excludePatterns = options.excludePatterns || [];
+  const visited = new Set<string>();
+
+  async function* walk(
+    currentPath: string,
+    depth: number
+  ): AsyncGenerator<WalkEntry> {
+    let entries;
+    try {
+      const realCurrent = await realpath(currentPath);
+      if (visited.has(realCurrent)) return;
+      visited.add(realCurrent);
+
+      entries = await readdir(currentPath, { withFileTypes: true });
+    } catch {
+      // Skip directories that can't be read
+      return;
+    }
+
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const fullPath = join(currentPath, entry.name);
+      const relativePath = relative(rootPath, fullPath).split(sep).join('/');
+
+      if (isExcluded(relativePath, entry.name, excludePatterns)) {
+        continue;
+      }
+
+      let isDirectory = entry.isDirectory();
+
+      if (entry.isSymbolicLink()) {
+        try {
+          const target = await realpath(fullPath);
+          validateAndNormalizePath(target, options.allowedDirectories);
+          isDirectory = (await stat(target)).isDirectory();
+        } catch {
+          // Broken link or target outside allowed directories
+          continue;
+        }
+      } else if (!entry.isFile() && !isDirectory) {
+        continue;
+      }
+
+      yield { path: fullPath, relativePath, name: entry.name, isDirectory };
+
+      if (
+        isDirectory &&
+        (options.maxDepth === undefined || depth < options.maxDepth)
+      ) {
+        yield* walk(fullPath, depth + 1);
+      }
+    }
+  }
+
+  try {
+    await validateRealPath(rootPath, options.allowedDirectories);
+  } catch {
+    // Starting folder links outside the allowed directories
+    return;
+  }
+  yield* walk(rootPath, 0);
+}
+
+/**
+ * Calculate fuzzy match score between search term and filename
+ * Shared by prompt discovery, task lookup and checklist item matching
+ */
+export function calculateFuzzyScore(search: string, filename: string): number {
+  // Remove file extensions for scoring
+  const cleanFilename = filename.replace(/\.(md|txt)$/, '');
+
+  // Exact match gets highest score
+  if (cleanFilename === search) return 1.0;
+
+  // Check for substring matches
+  if (cleanFilename.includes(search)) {
+    return 0.8 * (search.length / cleanFilename.length);
+  }
+
+  // Check for word boundary matches
+  const searchWords = search.split(/[\s-_]+/);
+  const filenameWords = cleanFilename.split(/[\s-_]+/);
+
+  let matchedWords = 0;
+  for (const searchWord of searchWords) {
+    for (const filenameWord of filenameWords) {
+      if (
+        filenameWord.includes(searchWord) ||
+        searchWord.includes(filenameWord)
+      ) {
+        matchedWords++;
+        break;
+      }
+    }
+  }
+
+  if (matchedWords > 0) {
+    return 0.6 * (matchedWords / searchWords.length);
+  }
+
+  // Check for character overlap (basic Levenshtein-like)
+  const commonChars = countCommonCharacters(search, cleanFilename);
+  const maxLen = Math.max(search.length, cleanFilename.length);
+  const charScore = commonChars / maxLen;
+
+  return charScore > 0.4 ? charScore * 0.5 : 0;
+}
+
+/**
+ * Count common characters between two strings
+ */
+function countCommonCharacters(str1: string, str2: string): number {
+  const chars1 = str1.split('').sort();
+  const chars2 = str2.split('').sort();
+  let common = 0;
+  let i = 0,
+    j = 0;
+
+  while (i < chars1.length && j < chars2.length) {
+    if (chars1[i] === chars2[j]) {
+      common++;
+      i++;
+      j++;
+    } else if (chars1[i] < chars2[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return common;
+}
+
+/**
+ * Score a note for a text query, weighting title matches above body
+ * occurrences. Shared by content search and prompt discovery.
+ */
+export function scoreContentMatch(
+  titleMatchLength: number,
+  titleLength: number,
+  bodyOccurrences: number
+): number {
+  let score = 0;
+
+  if (titleMatchLength > 0 && titleLength > 0) {
+    score += 0.8 * (titleMatchLength / titleLength);
+  }
+
+  // Count occurrences but cap the influence
+  score += Math.min(0.5, bodyOccurrences * 0.1);
+
+  return score;
+}
+
+/**
+ * Build a global search expression for a literal or regex query
+ */
+export function createSearchRegExp(
+  query: string,
+  options: { regex?: boolean; caseSensitive?: boolean } = {}
+): RegExp {
+  const flags = options.caseSensitive ? 'g' : 'gi';
+
+  if (!options.regex) {
+    // Escape special regex characters to prevent regex injection
+    return new RegExp(query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), flags);
+  }
+
+  try {
+    return new RegExp(query, flags);
+  } catch (error: any) {
+    throw new Error(`Invalid regular expression '${query}': ${error.message}`);
+  }
+}
+
+export interface ContentSearchOptions {
+  allowedDirectories: string[];
+  regex?: boolean;
+  caseSensitive?: boolean;
+  tags?: string[];
+  excludePatterns?: string[];
+  contextLines?: number;
+  maxResults: number;
+}
+
+export interface ContentHit {
+  path: string;
+  line: number;
+  snippet: string;
+  score: number;
+  title: string;
+}
+
+/**
+ * Search the contents of `.md` and `.txt` files under the given roots
+ *
+ * Hits are ranked by their file's score (title matches outweigh body
+ * occurrences), then by position within the file.
+ */
+export async function searchContent(
+  roots: string[],
+  query: string,
+  options: ContentSearchOptions,
+  obsidianUtils: ObsidianUtils
+): Promise<{ hits: ContentHit[]; totalHits: number; filesMatched: number }> {
+  const pattern = createSearchRegExp(query, options);
+  const contextLines = options.contextLines ?? 1;
+  const hits: ContentHit[] = [];
+  let filesMatched = 0;
+
+  for (const root of roots) {
+    for await (const entry of walkDirectory(root, options)) {
+      if (
+        entry.isDirectory ||
+        !isAllowedFileType(entry.path, ['.md', '.txt'])
+      ) {
+        continue;
+      }
+
+      let raw: string;
+      try {
+        raw = await readFile(entry.path, 'utf-8');
+      } catch {
+        // Skip files that can't be read
+        continue;
+      }
+
+      let parsed;
+      try {
+        parsed = obsidianUtils.parseObsidianFile(raw);
+      } catch {
+        // Malformed frontmatter - still search the raw text
+        parsed = { frontmatter: {}, content: raw, aliases: [], tags: [] };
+      }
+
+      if (options.tags && options.tags.length > 0) {
+        const noteTags = [
+          ...parsed.tags,
+          ...obsidianUtils.extractInlineTags(parsed.content),
+        ];
+        if (!options.tags.every(tag => obsidianUtils.hasTag(noteTags, tag))) {
+          continue;
+        }
+      }
+
+      const lines = raw.split(/\r?\n/);
+      const matchedLines: number[] = [];
+      let occurrences = 0;
+
+      lines.forEach((line, index) => {
+        const count = (line.match(pattern) || []).length;
+        if (count > 0) {
+          matchedLines.push(index);
+          occurrences += count;
+        }
+      });
+
+      if (matchedLines.length === 0) continue;
+      filesMatched++;
+
+      const title =
+        typeof parsed.frontmatter.title === 'string'
+          ? parsed.frontmatter.title
+          : entry.name.replace(/\.(md|txt)$/, '');
+      const titleMatch = title.match(pattern);
+      const titleMatchLength = titleMatch ? titleMatch[0].length : 0;
+      const score = scoreContentMatch(
+        titleMatchLength,
+        title.length,
+        occurrences
+      );
+
+      for (const index of matchedLines) {
+        const start = Math.max(0, index - contextLines);
+        const end = Math.min(lines.length - 1, index + contextLines);
+        const snippet = lines
+          .slice(start, end + 1)
+          .map((line, offset) => {
+            const lineNumber = start + offset + 1;
+            const marker = lineNumber === index + 1 ? '>' : ' ';
+            return `${marker} ${lineNumber}: ${line}`;
+          })
+          .join('\n');
+
+        hits.push({
+          path: entry.path,
+          line: index + 1,
+          snippet,
+          score,
+          title,
+        });
+      }
+    }
+  }
+
+  hits.sort(
+    (a, b) =>
+      b.score - a.score || a.path.localeCompare(b.path) || a.line - b.line
+  );
+
+  return {
+    hits: hits.slice(0, options.maxResults),
+    totalHits: hits.length,
+    filesMatched,
+  };
+}
@@ -6,8 +6,8 @@
  * allowed directories and prevents security vulnerabilities.
  */
 
-import { resolve, normalize, relative, join } from 'path';
-import { stat } from 'fs/promises';
+import { resolve, normalize, relative, join, dirname, basename } from 'path';
+import { realpath, stat } from 'fs/promises';
 
 /**
  * Validate that a path is within allowed directories and safe to access
@@ -62,6 +62,43 @@ export function validateVaultPath(
   return validateAndNormalizePath(fullPath, allowedDirectories);
 }
 
+/**
+ * Validate that a path stays within allowed directories once symlinks are
+ * followed. Paths that don't exist yet are checked through their nearest
+ * existing parent folder.
+ */
+export async function validateRealPath(
+  path: string,
+  allowedDirectories: string[]
+): Promise<string> {
+  const validPath = validateAndNormalizePath(path, allowedDirectories);
+  const realAllowed = await Promise.all(
+    allowedDirectories.map(dir => realpath(dir).catch(() => dir))
+  );
+
+  let existing = validPath;
+  let missing = '';
+  for (;;) {
+    try {
+      const real = await realpath(existing);
+      validateAndNormalizePath(join(real, missing), realAllowed);
+      return validPath;
+    } catch (error: any) {
+      if (error instanceof SecurityError) {
+        throw new SecurityError(
+          'path_outside_allowed_directories',
+          `Path '${path}' links outside allowed directories: ${allowedDirectories.join(', ')}`
+        );
+      }
+      if (error?.code !== 'ENOENT' || dirname(existing) === existing) {
+        throw error;
+      }
+      missing = join(basename(existing), missing);
+      existing = dirname(existing);
+    }
+  }
+}
+
 /**
  * Check if a path exists and get basic information about it
  */
@@ -10,136 +10,819 @@ import {
   TaskMetadata,
   TaskProgress,
   ChecklistItem,
+  EnhancedMcpError,
 } from './types.js';
 import { ObsidianUtils } from './obsidian.js';
+import { TemplateProcessor } from './templates.js';
+import { PromptManager } from './prompts.js';
+import {
+  validateVaultPath,
+  getPathInfo,
+  createSafeFilename,
+  sanitizeFilename,
+  isAllowedFileType,
+} from './security.js';
+import { resolveVaultPath } from './config.js';
+import { calculateFuzzyScore, walkDirectory } from './search.js';
+import matter from 'gray-matter';
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { dirname, basename, extname } from 'path';
+
+const TASK_TEMPLATE_FILE = 'Task.md';
+
+// Matches list items with a checkbox: indent, status character, text
+const CHECKBOX_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+\[(.)\](?:\s+(.*))?$/;
+
+// Everything on a checkbox line up to (not including) the status character
+const CHECKBOX_PREFIX_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+\[/;
+
+// Inline tag marking a checklist item as blocked
+const BLOCKED_TAG = /(?:^|\s)#blocked\b/i;
+
+// Frontmatter statuses that mark a checklist-free task as finished
+const DONE_STATUSES = ['done', 'complete', 'completed'];
+
+const DEFAULT_NEXT_ACTIONS = 3;
+
+// Task lookup: minimum fuzzy score, and how close a runner-up must score
+// for the match to count as ambiguous
+const TASK_FUZZY_THRESHOLD = 0.3;
+const TASK_AMBIGUITY_MARGIN = 0.1;
+
+interface TaskCandidate {
+  path: string;
+  name: string;
+  relativePath: string;
+  aliases: string[];
+  title?: string;
+}
+
+// Used when the vault has no Task.md template
+const DEFAULT_TASK_TEMPLATE = `# {{name}}
+
+{{description}}
+
+## Checklist
+
+{{checklist}}
+`;
 
 export class TaskManager {
+  private templateProcessor: TemplateProcessor;
+  private promptManager: PromptManager;
+
   constructor(
     private config: VaultConfig,
-    private obsidianUtils: ObsidianUtils
-  ) {}
+    private obsidianUtils: ObsidianUtils,
+    promptManager?: PromptManager
+  ) {
+    this.templateProcessor = new TemplateProcessor(config);
+    this.promptManager =
+      promptManager || new PromptManager(config, obsidianUtils);
+  }
 
   /**
    * Create a new task using Task.md template
+   *
+   * Renders the template with the task name, description and metadata,
+   * writes the checklist as `- [ ]` items and returns the created path.
+   * Refuses to overwrite an existing task file.
    */
   async createTask(
     name: string,
     description: string,
     checklist: string[],
-    _metadata: TaskMetadata = {}
+    metadata: TaskMetadata = {}
   ): Promise<string> {
-    console.log(`createTask: ${name} - Implementation pending`);
+    const tasksDir = resolveVaultPath(
+      this.config.tasksPath,
+      this.config.allowedDirectories
+    );
+    const taskPath = validateVaultPath(
+      createSafeFilename(name),
+      tasksDir,
+      this.config.allowedDirectories
+    );
+
+    if ((await getPathInfo(taskPath)).exists) {
+      throw new EnhancedMcpError(
+        'task_exists',
+        `Task '${name}' already exists at ${taskPath}`,
+        { path: taskPath }
+      );
+    }
+
+    const template = await this.loadTaskTemplate();
+    const checklistMarkdown = checklist.map(item => `- [ ] ${item}`).join('\n');
+    const templateBody = template.includes('{{checklist}}')
+      ? template
+      : `${template.trimEnd()}\n\n## Checklist\n\n{{checklist}}\n`;
 
-    // Implementation will:
-    // 1. Load Task.md template
-    // 2. Auto-populate Templater variables
-    // 3. Create in tasks/ folder with proper naming
-    // 4. Return task file path for immediate editing
+    const rendered = this.templateProcessor.processTemplate(
+      templateBody,
+      {
+        ...metadata,
+        name,
+        title: name,
+        description,
+        checklist: checklistMarkdown,
+      },
+      { taskName: name },
+      taskPath
+    );
+
+    const content = this.applyTaskMetadata(rendered, metadata);
+
+    await mkdir(dirname(taskPath), { recursive: true });
+    try {
+      // 'wx' fails if the file appeared since the existence check
+      await writeFile(taskPath, content, { encoding: 'utf-8', flag: 'wx' });
+    } catch (error: any) {
+      if (error.code === 'EEXIST') {
+        throw new EnhancedMcpError(
+          'task_exists',
+          `Task '${name}' already exists at ${taskPath}`,
+          { path: taskPath }
+        );
+      }
+      throw error;
+    }
 
-    return `Task "${name}" would be created with ${checklist.length} checklist items`;
+    return taskPath;
   }
 
   /**
    * Update task progress by modifying checklist completion
+   *
+   * Update keys are either 1-based item numbers (`{2: true}`, counting
+   * nested items in document order) or item text, matched exactly, then
+   * by substring, then fuzzily. Only the checkbox characters of the
+   * targeted lines change; the rest of the note is left untouched.
    */
   async updateTaskProgress(
     taskName: string,
-    _updates: Record<string, boolean>
+    updates: Record<string, boolean>
   ): Promise<TaskProgress> {
-    console.log(`updateTaskProgress: ${taskName} - Implementation pending`);
+    const taskPath = await this.requireTask(taskName);
+    const content = await readFile(taskPath, 'utf-8');
+    const items = this.flattenChecklist(this.parseChecklistItems(content));
 
-    // Implementation will:
-    // 1. Find task by name (fuzzy matching)
-    // 2. Parse current checklist state
-    // 3. Apply updates: {2: true, 5: false}
-    // 4. Calculate and update completion percentage
-    // 5. Maintain task history/audit trail
+    const targets = Object.entries(updates).map(([key, completed]) => ({
+      item: this.resolveChecklistItem(items, key),
+      completed,
+    }));
 
-    return {
-      completionPercentage: 0,
-      totalItems: 0,
-      completedItems: 0,
-      nextActions: [],
-      blockers: [],
-      lastUpdated: new Date(),
-    };
+    const updatedContent = this.updateChecklistInContent(content, targets);
+    if (updatedContent !== content) {
+      await writeFile(taskPath, updatedContent, 'utf-8');
+    }
+
+    return this.calculateProgress(this.parseChecklistItems(updatedContent));
   }
 
   /**
    * Get comprehensive task status analysis
+   *
+   * Completion counts nested sub-items. Blockers come from unfinished
+   * tasks listed in the `dependencies` frontmatter and from unchecked
+   * items tagged `#blocked`.
    */
-  async getTaskStatus(taskName: string): Promise<TaskProgress> {
-    console.log(`getTaskStatus: ${taskName} - Implementation pending`);
+  async getTaskStatus(
+    taskName: string,
+    maxNextActions: number = DEFAULT_NEXT_ACTIONS
+  ): Promise<TaskProgress> {
+    const taskPath = await this.requireTask(taskName);
+    const content = await readFile(taskPath, 'utf-8');
+    const { frontmatter } = this.obsidianUtils.parseObsidianFile(content);
+
+    const progress = this.calculateProgress(
+      this.parseChecklistItems(content),
+      maxNextActions
+    );
 
-    // Implementation will:
-    // 1. Parse all checkbox states
-    // 2. Return completion metrics
-    // 3. Identify next actions
-    // 4. Show dependencies and blockers
+    const dependencyBlockers = await this.findDependencyBlockers(
+      frontmatter.dependencies
+    );
+    const pathInfo = await getPathInfo(taskPath);
 
     return {
-      completionPercentage: 0,
-      totalItems: 0,
-      completedItems: 0,
-      nextActions: [`Next action for ${taskName}`],
-      blockers: [],
-      lastUpdated: new Date(),
+      ...progress,
+      blockers: [...dependencyBlockers, ...progress.blockers],
+      lastUpdated: pathInfo.modified || progress.lastUpdated,
     };
   }
 
   /**
    * Create bidirectional links between tasks and prompts
+   *
+   * Adds a `prompts:` entry with the relationship to the task and a
+   * matching `tasks:` backreference to the prompt. Existing links are
+   * left as they are.
    */
   async linkTaskToPrompt(
     taskName: string,
     promptName: string,
     relationship: string = 'uses'
-  ): Promise<void> {
-    console.log(
-      `linkTaskToPrompt: ${taskName} -> ${promptName} (${relationship}) - Implementation pending`
+  ): Promise<{ taskPath: string; promptPath: string }> {
+    const taskPath = await this.requireTask(taskName);
+    const promptPath = await this.promptManager.resolvePromptPath(promptName);
+
+    await this.addLink(taskPath, 'prompts', 'prompt', promptPath, relationship);
+    await this.addLink(promptPath, 'tasks', 'task', taskPath, relationship);
+
+    return { taskPath, promptPath };
+  }
+
+  /**
+   * Reverse lookup: find tasks whose `prompts:` frontmatter links a prompt
+   */
+  async findTasksForPrompt(
+    promptName: string
+  ): Promise<{ task: string; path: string; relationship: string }[]> {
+    const promptPath = await this.promptManager.resolvePromptPath(promptName);
+    const files = await this.obsidianUtils.listVaultFiles();
+    const tasksDir = resolveVaultPath(
+      this.config.tasksPath,
+      this.config.allowedDirectories
     );
+    const results: { task: string; path: string; relationship: string }[] = [];
 
-    // Implementation will:
-    // 1. Find both task and prompt files
-    // 2. Update task metadata to reference associated prompts
-    // 3. Create reverse lookup capability
-    // 4. Track prompt usage patterns
+    for await (const entry of walkDirectory(tasksDir, {
+      allowedDirectories: this.config.allowedDirectories,
+    })) {
+      if (entry.isDirectory || !isAllowedFileType(entry.path, ['.md'])) {
+        continue;
+      }
+
+      try {
+        const content = await readFile(entry.path, 'utf-8');
+        const { frontmatter } = this.obsidianUtils.parseObsidianFile(content);
+
+        for (const link of this.readLinks(frontmatter.prompts, 'prompt')) {
+          // Resolve like Obsidian, so [[session]] only matches the prompt
+          // it actually points to
+          const linkedPath = await this.obsidianUtils.resolveWikilinkTarget(
+            link.target,
+            entry.path,
+            files
+          );
+          if (linkedPath === promptPath) {
+            results.push({
+              task: this.linkTarget(entry.path),
+              path: entry.path,
+              relationship: link.relationship,
+            });
+          }
+        }
+      } catch {
+        // Skip files that can't be parsed
+        continue;
+      }
+    }
+
+    return results;
+  }
+
+  // Helper methods
+  /**
+   * Load the Task.md template, falling back to a minimal built-in template
+   */
+  private async loadTaskTemplate(): Promise<string> {
+    const templatesDir = resolveVaultPath(
+      this.config.templatesPath,
+      this.config.allowedDirectories
+    );
+
+    try {
+      const templatePath = validateVaultPath(
+        TASK_TEMPLATE_FILE,
+        templatesDir,
+        this.config.allowedDirectories
+      );
+      return await readFile(templatePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      return DEFAULT_TASK_TEMPLATE;
+    }
+  }
+
+  /**
+   * Merge task metadata into the rendered note's frontmatter
+   */
+  private applyTaskMetadata(content: string, metadata: TaskMetadata): string {
+    const entries = Object.entries(metadata).filter(
+      ([_, value]) => value !== undefined
+    );
+    if (entries.length === 0) {
+      return content;
+    }
+
+    const { data, content: body } = matter(content);
+    for (const [key, value] of entries) {
+      data[key] =
+        value instanceof Date ? value.toISOString().slice(0, 10) : value;
+    }
+
+    return matter.stringify(body, data);
   }
 
-  // Helper methods - stubs
-  private async findTaskByName(name: string): Promise<string | null> {
-    console.log(`findTaskByName: ${name} - Implementation pending`);
+  /**
+   * Find a task file by name within the tasks folder
+   *
+   * Resolves like prompt discovery: exact filename, then frontmatter
+   * aliases, then fuzzy filename, then title. Throws with a candidate
+   * list when several tasks match equally well. With `allowFuzzy` off only
+   * filenames and aliases match, the way wikilinks resolve.
+   */
+  private async findTaskByName(
+    name: string,
+    allowFuzzy = true
+  ): Promise<string | null> {
+    const candidates = await this.loadTaskCandidates();
+    const search = name.trim().replace(/\.md$/i, '').toLowerCase();
+    const safeName = sanitizeFilename(name.trim())
+      .replace(/\.md$/i, '')
+      .toLowerCase();
+
+    // 1. Exact filename (or vault-relative path within the tasks folder)
+    const exact = candidates.filter(
+      candidate =>
+        candidate.name.toLowerCase() === search ||
+        candidate.name.toLowerCase() === safeName ||
+        candidate.relativePath.toLowerCase() === search
+    );
+    if (exact.length > 0) return this.pickTask(name, exact);
+
+    // 2. Alias resolution via frontmatter
+    const aliased = candidates.filter(candidate =>
+      candidate.aliases.some(alias => alias.toLowerCase() === search)
+    );
+    if (aliased.length > 0) return this.pickTask(name, aliased);
+    if (!allowFuzzy) return null;
+
+    // 3. Fuzzy filename search
+    const fuzzy = this.rankTasks(candidates, search, candidate => [
+      candidate.name,
+    ]);
+    if (fuzzy.length > 0) return this.pickTask(name, fuzzy);
+
+    // 4. Title search
+    const titled = this.rankTasks(candidates, search, candidate =>
+      candidate.title ? [candidate.title] : []
+    );
+    if (titled.length > 0) return this.pickTask(name, titled);
+
     return null;
   }
 
-  private parseChecklistItems(_content: string): ChecklistItem[] {
-    console.log('parseChecklistItems: Implementation pending');
-    // Parse markdown checkboxes: - [ ] item or - [x] completed
-    return [];
+  /**
+   * Load name, alias and title information for every task file
+   */
+  private async loadTaskCandidates(): Promise<TaskCandidate[]> {
+    const tasksDir = resolveVaultPath(
+      this.config.tasksPath,
+      this.config.allowedDirectories
+    );
+    const candidates: TaskCandidate[] = [];
+
+    for await (const entry of walkDirectory(tasksDir, {
+      allowedDirectories: this.config.allowedDirectories,
+    })) {
+      if (entry.isDirectory || !isAllowedFileType(entry.path, ['.md'])) {
+        continue;
+      }
+
+      const candidate: TaskCandidate = {
+        path: entry.path,
+        name: this.linkTarget(entry.path),
+        relativePath: entry.relativePath.replace(/\.md$/i, ''),
+        aliases: [],
+      };
+
+      try {
+        const parsed = this.obsidianUtils.parseObsidianFile(
+          await readFile(entry.path, 'utf-8')
+        );
+        candidate.aliases = parsed.aliases;
+        const heading = this.obsidianUtils.extractTitle(parsed.content);
+        candidate.title =
+          typeof parsed.frontmatter.title === 'string'
+            ? parsed.frontmatter.title
+            : heading !== 'Untitled'
+              ? heading
+              : undefined;
+      } catch {
+        // Unparseable frontmatter - still matchable by filename
+      }
+
+      candidates.push(candidate);
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Score candidates against the search term, keeping those within the
+   * ambiguity margin of the best match
+   */
+  private rankTasks(
+    candidates: TaskCandidate[],
+    search: string,
+    fields: (candidate: TaskCandidate) => string[]
+  ): TaskCandidate[] {
+    const scored = candidates
+      .map(candidate => ({
+        candidate,
+        score: Math.max(
+          0,
+          ...fields(candidate).map(field =>
+            calculateFuzzyScore(search, field.toLowerCase())
+          )
+        ),
+      }))
+      .filter(match => match.score > TASK_FUZZY_THRESHOLD)
+      .sort((a, b) => b.score - a.score);
+
+    return scored
+      .filter(match => scored[0].score - match.score < TASK_AMBIGUITY_MARGIN)
+      .map(match => match.candidate);
+  }
+
+  /**
+   * Return the single matching task, or throw with the candidate list
+   */
+  private pickTask(name: string, matches: TaskCandidate[]): string {
+    if (matches.length === 1) {
+      return matches[0].path;
+    }
+
+    const candidates = matches.slice(0, 5);
+    throw new EnhancedMcpError(
+      'ambiguous_task',
+      `'${name}' matches several tasks: ${candidates
+        .map(candidate => candidate.relativePath)
+        .join(', ')}. Use a more specific name.`,
+      {
+        candidates: candidates.map(candidate => ({
+          name: candidate.name,
+          path: candidate.path,
+        })),
+      }
+    );
+  }
+
+  /**
+   * Find a task file by name, throwing if it does not exist
+   */
+  private async requireTask(name: string): Promise<string> {
+    const taskPath = await this.findTaskByName(name);
+    if (!taskPath) {
+      throw new EnhancedMcpError(
+        'task_not_found',
+        `Task '${name}' not found in ${this.config.tasksPath}`
+      );
+    }
+    return taskPath;
+  }
+
+  /**
+   * Parse Obsidian checkboxes (`- [ ]`, `* [x]`, `1. [ ]`) into a tree
+   *
+   * Nesting follows indentation, checkboxes inside fenced code blocks and
+   * frontmatter are ignored, and each item records its source line.
+   */
+  private parseChecklistItems(content: string): ChecklistItem[] {
+    const lines = content.split(/\r?\n/);
+    const roots: ChecklistItem[] = [];
+    const stack: { indent: number; item: ChecklistItem }[] = [];
+    let fence: string | null = null;
+    let start = 0;
+
+    // Skip YAML frontmatter so line numbers still refer to the full file
+    if (lines[0] === '---') {
+      const end = lines.indexOf('---', 1);
+      if (end !== -1) start = end + 1;
+    }
+
+    for (let index = start; index < lines.length; index++) {
+      const line = lines[index];
+
+      const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+      if (fenceMatch) {
+        if (fence === null) {
+          fence = fenceMatch[1];
+        } else if (
+          fenceMatch[1][0] === fence[0] &&
+          fenceMatch[1].length >= fence.length
+        ) {
+          fence = null;
+        }
+        continue;
+      }
+      if (fence !== null) continue;
+
+      const match = line.match(CHECKBOX_PATTERN);
+      if (!match) continue;
+
+      const indent = match[1].replace(/\t/g, '    ').length;
+      const item: ChecklistItem = {
+        text: (match[3] || '').trim(),
+        completed: match[2].toLowerCase() === 'x',
+        line: index,
+        status: match[2],
+      };
+
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+        stack.pop();
+      }
+
+      if (stack.length === 0) {
+        roots.push(item);
+      } else {
+        const parent = stack[stack.length - 1].item;
+        parent.subItems = parent.subItems || [];
+        parent.subItems.push(item);
+      }
+
+      stack.push({ indent, item });
+    }
+
+    return roots;
   }
 
-  private calculateProgress(checklist: ChecklistItem[]): TaskProgress {
-    const totalItems = checklist.length;
-    const completedItems = checklist.filter(item => item.completed).length;
+  /**
+   * Calculate progress across all items, including nested sub-items
+   */
+  private calculateProgress(
+    checklist: ChecklistItem[],
+    maxNextActions: number = DEFAULT_NEXT_ACTIONS
+  ): TaskProgress {
+    const items = this.flattenChecklist(checklist);
+    const totalItems = items.length;
+    const completedItems = items.filter(item => item.completed).length;
     const completionPercentage =
       totalItems > 0 ? (completedItems / totalItems) * 100 : 0;
 
+    const open = items.filter(item => !item.completed);
+    const isBlocked = (item: ChecklistItem) => BLOCKED_TAG.test(item.text);
+
+    // Next actions are the first unchecked leaves that aren't blocked
+    const nextActions = open
+      .filter(
+        item =>
+          !isBlocked(item) && (!item.subItems || item.subItems.length === 0)
+      )
+      .slice(0, maxNextActions)
+      .map(item => item.text);
+
+    const blockers = open
+      .filter(isBlocked)
+      .map(item => item.text.replace(BLOCKED_TAG, '').trim());
+
     return {
       completionPercentage,
       totalItems,
       completedItems,
-      nextActions: [],
-      blockers: [],
+      nextActions,
+      blockers,
       lastUpdated: new Date(),
     };
   }
 
+  /**
+   * Add a `[[target]]` link entry to a frontmatter list unless present
+   *
+   * The link uses the file name, or the vault-relative path when another
+   * file in the vault shares that name.
+   */
+  private async addLink(
+    filePath: string,
+    key: string,
+    field: string,
+    targetPath: string,
+    relationship: string
+  ): Promise<void> {
+    const content = await readFile(filePath, 'utf-8');
+    const { frontmatter } = this.obsidianUtils.parseObsidianFile(content);
+    const files = await this.obsidianUtils.listVaultFiles();
+    const target = await this.obsidianUtils.getLinkText(targetPath, files);
+
+    for (const link of this.readLinks(frontmatter[key], field)) {
+      if (link.relationship !== relationship) continue;
+      const linkedPath = await this.obsidianUtils.resolveWikilinkTarget(
+        link.target,
+        filePath,
+        files
+      );
+      if (linkedPath === targetPath) return;
+    }
+
+    const updated = this.obsidianUtils.addFrontmatterListItem(content, key, {
+      [field]: `[[${target}]]`,
+      relationship,
+    });
+    await writeFile(filePath, updated, 'utf-8');
+  }
+
+  /**
+   * Normalize link entries from frontmatter; plain strings and
+   * `{ <field>: "[[Target]]", relationship }` objects are both accepted
+   */
+  private readLinks(
+    value: unknown,
+    field: string
+  ): { target: string; relationship: string }[] {
+    const entries = Array.isArray(value) ? value : value ? [value] : [];
+
+    return entries
+      .map(entry => {
+        if (typeof entry === 'string') {
+          return {
+            target: this.obsidianUtils.stripWikilink(entry),
+            relationship: 'uses',
+          };
+        }
+        if (entry && typeof entry[field] === 'string') {
+          return {
+            target: this.obsidianUtils.stripWikilink(entry[field]),
+            relationship: String(entry.relationship || 'uses'),
+          };
+        }
+        return null;
+      })
+      .filter(
+        (link): link is { target: string; relationship: string } =>
+          link !== null
+      );
+  }
+
+  /**
+   * Wikilink target for a file: its name without extension
+   */
+  private linkTarget(filePath: string): string {
+    return basename(filePath, extname(filePath));
+  }
+
+  /**
+   * Describe unfinished or missing tasks listed as dependencies, which
+   * resolve by filename or alias only
+   */
+  private async findDependencyBlockers(
+    dependencies: unknown
+  ): Promise<string[]> {
+    const names = (Array.isArray(dependencies) ? dependencies : [dependencies])
+      .filter((name): name is string => typeof name === 'string')
+      .map(name => this.obsidianUtils.stripWikilink(name))
+      .filter(name => name.length > 0);
+
+    const blockers: string[] = [];
+
+    for (const name of names) {
+      let dependencyPath: string | null;
+      try {
+        dependencyPath = await this.findTaskByName(name, false);
+      } catch (error: unknown) {
+        if (
+          !(error instanceof EnhancedMcpError) ||
+          error.code !== 'ambiguous_task'
+        ) {
+          throw error;
+        }
+        blockers.push(`Dependency '${name}' is ambiguous: ${error.message}`);
+        continue;
+      }
+      if (!dependencyPath) {
+        blockers.push(`Dependency '${name}' not found`);
+        continue;
+      }
+
+      const content = await readFile(dependencyPath, 'utf-8');
+      const { frontmatter } = this.obsidianUtils.parseObsidianFile(content);
+      const progress = this.calculateProgress(
+        this.parseChecklistItems(content)
+      );
+
+      const finished =
+        progress.totalItems > 0
+          ? progress.completedItems === progress.totalItems
+          : DONE_STATUSES.includes(String(frontmatter.status).toLowerCase());
+
+      if (!finished) {
+        blockers.push(
+          `Waiting on '${name}' (${progress.completedItems}/${progress.totalItems} complete)`
+        );
+      }
+    }
+
+    return blockers;
+  }
+
+  /**
+   * Flatten a checklist tree into document order
+   */
+  private flattenChecklist(items: ChecklistItem[]): ChecklistItem[] {
+    return items.flatMap(item => [
+      item,
+      ...this.flattenChecklist(item.subItems || []),
+    ]);
+  }
+
+  /**
+   * Resolve an update key to a single checklist item
+   */
+  private resolveChecklistItem(
+    items: ChecklistItem[],
+    key: string
+  ): ChecklistItem {
+    const trimmedKey = key.trim();
+
+    if (/^\d+$/.test(trimmedKey)) {
+      const index = Number(trimmedKey);
+      if (index < 1 || index > items.length) {
+        throw new EnhancedMcpError(
+          'checklist_item_not_found',
+          `Checklist item #${index} is out of range (task has ${items.length} items)`
+        );
+      }
+      return items[index - 1];
+    }
+
+    const search = trimmedKey.toLowerCase();
+    const describe = (matches: ChecklistItem[]) =>
+      matches
+        .map(item => `#${items.indexOf(item) + 1} "${item.text}"`)
+        .join(', ');
+    const pickUnique = (matches: ChecklistItem[]) => {
+      if (matches.length > 1) {
+        throw new EnhancedMcpError(
+          'ambiguous_checklist_item',
+          `'${key}' matches several checklist items: ${describe(matches)}. Use the item number or more specific text.`,
+          { candidates: matches.map(item => item.text) }
+        );
+      }
+      return matches[0];
+    };
+
+    // 1. Exact text match (case-insensitive)
+    const exact = items.filter(item => item.text.toLowerCase() === search);
+    if (exact.length > 0) return pickUnique(exact);
+
+    // 2. Substring match
+    const partial = items.filter(item =>
+      item.text.toLowerCase().includes(search)
+    );
+    if (partial.length > 0) return pickUnique(partial);
+
+    // 3. Fuzzy match - ambiguous when the runner-up scores about the same
+    const threshold = this.config.fuzzyThreshold ?? 0.6;
+    const scored = items
+      .map(item => ({
+        item,
+        score: calculateFuzzyScore(search, item.text.toLowerCase()),
+      }))
+      .filter(match => match.score >= threshold)
+      .sort((a, b) => b.score - a.score);
+
+    if (scored.length === 0) {
+      throw new EnhancedMcpError(
+        'checklist_item_not_found',
+        `No checklist item matches '${key}'`
+      );
+    }
+
+    return pickUnique(
+      scored
+        .filter(match => scored[0].score - match.score < 0.05)
+        .map(match => match.item)
+    );
+  }
+
+  /**
+   * Rewrite only the checkbox characters of the targeted items
+   */
   private updateChecklistInContent(
     content: string,
-    _updates: Record<string, boolean>
+    targets: { item: ChecklistItem; completed: boolean }[]
   ): string {
-    console.log('updateChecklistInContent: Implementation pending');
-    // Update checkbox states in markdown content
-    return content;
+    const lines = content.split('\n');
+
+    for (const { item, completed } of targets) {
+      if (item.completed === completed) continue;
+
+      const line = lines[item.line];
+      const prefix = line.match(CHECKBOX_PREFIX_PATTERN);
+      if (!prefix) continue;
+
+      const statusIndex = prefix[0].length;
+      lines[item.line] =
+        line.slice(0, statusIndex) +
+        (completed ? 'x' : ' ') +
+        line.slice(statusIndex + 1);
+      item.completed = completed;
+    }
+
+    return lines.join('\n');
   }
 }
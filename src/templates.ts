@@ -5,11 +5,61 @@
  * with support for complex template logic and context awareness.
  */
 
-import { VaultConfig, TemplateContext, TemplateVariable } from './types.js';
-import { basename } from 'path';
+import {
+  VaultConfig,
+  TemplateContext,
+  TemplateFile,
+  TemplateVariable,
+  TemplateRenderResult,
+  EnhancedMcpError,
+} from './types.js';
+import {
+  renderTemplate,
+  evaluateExpression,
+  RenderOptions,
+  ScopeValue,
+} from './interpreter.js';
+import {
+  parsePlaceholders,
+  Placeholder,
+  PlaceholderFilter,
+} from './placeholders.js';
+import { basename, dirname, relative, sep } from 'path';
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+const DAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+// Templater's default for tp.file.creation_date and last_modified_date
+const FILE_DATE_FORMAT = 'YYYY-MM-DD HH:mm';
+// Bare tp.x.y or tp.x.y(args) references outside <% %> tags
+const BARE_TEMPLATER_PATTERN = /\btp(?:\.[A-Za-z_$][\w$]*)+(?:\([^()\n]*\))?/g;
 
 export class TemplateProcessor {
-  constructor(private config: VaultConfig) {}
+  private filters = new Map<string, PlaceholderFilter>();
+
+  constructor(private config: VaultConfig) {
+    this.registerDefaultFilters();
+  }
 
   /**
    * Process template with Templater syntax and variable substitution
@@ -20,42 +70,261 @@ export class TemplateProcessor {
     context: Partial<TemplateContext> = {},
     filePath?: string
   ): string {
-    // Create full context
+    return this.render(
+      content,
+      { variables: this.createVariableMap(variables), ...context },
+      { filePath }
+    ).content;
+  }
+
+  /**
+   * Render Templater tags and {{placeholders}} in a single pass
+   *
+   * Only the template's own text is scanned: values written by tags or
+   * substituted into placeholders are never re-scanned, so a value
+   * containing `{{` or `<%` comes through verbatim. The result reports each
+   * placeholder and every variable read, with the source of its value.
+   */
+  render(
+    content: string,
+    context: Partial<TemplateContext> = {},
+    options: { filePath?: string; templater?: boolean } = {}
+  ): TemplateRenderResult {
     const fullContext: TemplateContext = {
-      variables: this.createVariableMap(variables),
+      variables: {},
       currentDate: new Date(),
       vaultPath: this.config.allowedDirectories[0] || '',
+      file: options.filePath
+        ? { path: options.filePath, frontmatter: {}, tags: [] }
+        : undefined,
       ...context,
     };
+    const templater = options.templater ?? Boolean(this.config.templaterLite);
+    const result: TemplateRenderResult = {
+      content: '',
+      placeholders: [],
+      variablesUsed: {},
+      missingVariables: [],
+    };
 
-    let processedContent = content;
+    const values: Record<string, any> = {};
+    for (const [name, variable] of Object.entries(fullContext.variables)) {
+      values[name] = variable.value;
+    }
+    const renderText = (
+      text: string,
+      lookup: (name: string) => ScopeValue
+    ): string => {
+      let output = '';
+      for (const part of parsePlaceholders(text)) {
+        if (typeof part !== 'string') {
+          output += this.renderPlaceholder(
+            part,
+            lookup,
+            fullContext,
+            result,
+            templater
+          );
+        } else if (templater) {
+          output += this.resolveTemplaterFunctions(part, fullContext);
+        } else {
+          output += part;
+        }
+      }
+      return output;
+    };
 
-    // 1. Process Templater functions first
-    if (this.config.templaterLite) {
-      processedContent = this.resolveTemplaterFunctions(
-        processedContent,
-        fullContext,
-        filePath
-      );
+    if (templater) {
+      result.content = this.processConditionals(content, fullContext, values, {
+        renderText,
+        onRead: name => {
+          const variable = fullContext.variables[name];
+          if (
+            variable &&
+            !Object.prototype.hasOwnProperty.call(result.variablesUsed, name)
+          ) {
+            result.variablesUsed[name] = {
+              value: variable.value,
+              source: variable.source,
+            };
+          }
+        },
+      });
+    } else {
+      result.content = renderText(content, name => ({
+        found: Object.prototype.hasOwnProperty.call(values, name),
+        value: values[name],
+        computed: false,
+      }));
     }
 
-    // 2. Handle variable substitution
-    processedContent = this.substituteVariables(processedContent, variables);
+    result.missingVariables = [
+      ...new Set(
+        result.placeholders
+          .filter(placeholder => !placeholder.resolved)
+          .map(placeholder => placeholder.name)
+      ),
+    ];
+    return result;
+  }
 
-    return processedContent;
+  /**
+   * Add a filter for {{variable | name:"arg"}} placeholders, replacing any
+   * filter already registered under that name
+   */
+  registerFilter(name: string, filter: PlaceholderFilter): void {
+    this.filters.set(name, filter);
   }
 
   /**
-   * Simple variable substitution for {{variable}} syntax
+   * Fill one placeholder from the variable in scope or its default, then
+   * apply its filters. Unfilled placeholders are left as written.
+   *
+   * Defaults are part of the template, so `{{when:tp.date.now("HH:mm")}}`
+   * resolves its tp references; variable values are used as given.
    */
-  private substituteVariables(
-    content: string,
-    variables: Record<string, any>
+  private renderPlaceholder(
+    placeholder: Placeholder,
+    lookup: (name: string) => ScopeValue,
+    context: TemplateContext,
+    result: TemplateRenderResult,
+    templater: boolean
   ): string {
-    return content.replace(/\{\{([^}]+)\}\}/g, (match, varName) => {
-      const [name, defaultValue] = varName.split(':');
-      const value = variables[name.trim()];
-      return value !== undefined ? String(value) : defaultValue || match;
+    const variable = lookup(placeholder.name);
+    let value = variable.found ? variable.value : undefined;
+    let source: TemplateVariable['source'] | undefined;
+
+    if (value !== undefined) {
+      source = variable.computed
+        ? 'computed'
+        : context.variables[placeholder.name]?.source || 'user';
+    } else if (placeholder.defaultValue !== undefined) {
+      value = templater
+        ? this.resolveTemplaterFunctions(placeholder.defaultValue, context)
+        : placeholder.defaultValue;
+      source = 'default';
+    }
+    // The value before formatting filters, as reported in variablesUsed
+    let usedValue = value;
+
+    for (const call of placeholder.filters) {
+      const filter = this.filters.get(call.name);
+      if (!filter) {
+        throw new EnhancedMcpError(
+          'unknown_filter',
+          `Unknown filter '${call.name}' in ${placeholder.raw}`,
+          { available: [...this.filters.keys()] }
+        );
+      }
+      const filtered = filter(value, call.args);
+      // A filter that fills in a missing or empty value acts as a default
+      if (
+        filtered !== undefined &&
+        (value === undefined || (call.name === 'default' && filtered !== value))
+      ) {
+        source = 'default';
+        usedValue = filtered;
+      }
+      value = filtered;
+    }
+
+    if (value === undefined) {
+      result.placeholders.push({
+        placeholder: placeholder.raw,
+        name: placeholder.name,
+        filters: placeholder.filters.map(call => call.name),
+        resolved: false,
+      });
+      return placeholder.raw;
+    }
+
+    result.placeholders.push({
+      placeholder: placeholder.raw,
+      name: placeholder.name,
+      filters: placeholder.filters.map(call => call.name),
+      resolved: true,
+      value,
+      source,
+    });
+    // A variable's own value outranks a default used elsewhere
+    const existing = Object.prototype.hasOwnProperty.call(
+      result.variablesUsed,
+      placeholder.name
+    )
+      ? result.variablesUsed[placeholder.name]
+      : undefined;
+    if (!existing || existing.source === 'default') {
+      result.variablesUsed[placeholder.name] = {
+        value: usedValue,
+        source: source || 'default',
+      };
+    }
+    return String(value);
+  }
+
+  /**
+   * Built-in placeholder filters
+   */
+  private registerDefaultFilters(): void {
+    const text =
+      (transform: (value: string) => string): PlaceholderFilter =>
+      value =>
+        value === undefined || value === null
+          ? value
+          : transform(String(value));
+    const items = (value: any): any[] =>
+      Array.isArray(value)
+        ? value
+        : String(value)
+            .split('\n')
+            .map(item => item.trim())
+            .filter(item => item.length > 0);
+
+    this.registerFilter(
+      'upper',
+      text(value => value.toUpperCase())
+    );
+    this.registerFilter(
+      'lower',
+      text(value => value.toLowerCase())
+    );
+    this.registerFilter(
+      'trim',
+      text(value => value.trim())
+    );
+    this.registerFilter(
+      'capitalize',
+      text(value => value.charAt(0).toUpperCase() + value.slice(1))
+    );
+    this.registerFilter('default', (value, [fallback = '']) =>
+      value === undefined || value === null || value === '' ? fallback : value
+    );
+    this.registerFilter('join', (value, [separator = ', ']) =>
+      value === undefined || value === null
+        ? value
+        : items(value).join(separator)
+    );
+    this.registerFilter('bullets', value =>
+      value === undefined || value === null
+        ? value
+        : items(value)
+            .map(item => `- ${item}`)
+            .join('\n')
+    );
+    this.registerFilter('date', (value, [format]) => {
+      if (value === undefined || value === null || value === '') return value;
+      const date =
+        value instanceof Date
+          ? value
+          : /^\d{4}-\d{2}-\d{2}$/.test(String(value))
+            ? this.parseDate(String(value))
+            : new Date(value);
+      return isNaN(date.getTime())
+        ? value
+        : this.formatDate(
+            date,
+            format || this.config.defaultDateFormat || 'YYYY-MM-DD'
+          );
     });
   }
 
@@ -79,64 +348,39 @@ export class TemplateProcessor {
   }
 
   /**
-   * Resolve Templater function calls - Phase 1 implementation
+   * Resolve bare tp.* references outside <% %> tags, e.g. a frontmatter
+   * value of `tp.date.now("YYYY-MM-DD")`. References that don't evaluate to
+   * a value are left as written. Trailing underscores that don't belong to
+   * a property are Markdown emphasis, as in `_from tp.file.title_`.
    */
   private resolveTemplaterFunctions(
     content: string,
-    context: TemplateContext,
-    filePath?: string
+    context: TemplateContext
   ): string {
-    let processedContent = content;
-
-    // 1. Handle tp.date.now() - current date/time
-    processedContent = processedContent.replace(
-      /tp\.date\.now\(\s*(?:"([^"]*)"|'([^']*)')?\s*\)/g,
-      (match, format1, format2) => {
-        const format =
-          format1 || format2 || this.config.defaultDateFormat || 'YYYY-MM-DD';
-        return this.formatDate(context.currentDate, format);
+    const scope = { tp: this.createTemplaterScope(context) };
+    const resolve = (reference: string): string | undefined => {
+      try {
+        const value = evaluateExpression(reference, scope);
+        return ['string', 'number', 'boolean'].includes(typeof value) ||
+          Array.isArray(value)
+          ? String(value)
+          : undefined;
+      } catch {
+        return undefined;
       }
-    );
-
-    // 2. Handle tp.file.title - extract title from file path
-    if (filePath) {
-      const fileTitle = this.extractFileTitle(filePath);
-      processedContent = processedContent.replace(
-        /tp\.file\.title/g,
-        fileTitle
-      );
-    }
-
-    // 3. Handle tp.file.folder() - extract folder name
-    if (filePath) {
-      const folderName = this.extractFolderName(filePath);
-      processedContent = processedContent.replace(
-        /tp\.file\.folder\(\s*\)/g,
-        folderName
-      );
-    }
+    };
 
-    // 4. Handle tp.date.today() - current date without time
-    processedContent = processedContent.replace(
-      /tp\.date\.today\(\s*(?:"([^"]*)"|'([^']*)')?\s*\)/g,
-      (match, format1, format2) => {
-        const format = format1 || format2 || 'YYYY-MM-DD';
-        return this.formatDate(context.currentDate, format);
-      }
-    );
+    return content.replace(BARE_TEMPLATER_PATTERN, match => {
+      const resolved = resolve(match);
+      if (resolved !== undefined) return resolved;
 
-    // 5. Handle tp.date.tomorrow() - tomorrow's date
-    processedContent = processedContent.replace(
-      /tp\.date\.tomorrow\(\s*(?:"([^"]*)"|'([^']*)')?\s*\)/g,
-      (match, format1, format2) => {
-        const format = format1 || format2 || 'YYYY-MM-DD';
-        const tomorrow = new Date(context.currentDate);
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        return this.formatDate(tomorrow, format);
+      const emphasis = match.match(/(?<=[^._])_+$/);
+      if (emphasis) {
+        const value = resolve(match.slice(0, emphasis.index));
+        if (value !== undefined) return value + emphasis[0];
       }
-    );
-
-    return processedContent;
+      return match;
+    });
   }
 
   /**
@@ -150,36 +394,110 @@ export class TemplateProcessor {
     const minutes = String(date.getMinutes()).padStart(2, '0');
     const seconds = String(date.getSeconds()).padStart(2, '0');
 
-    return format.replace(/YYYY|YY|MM|M|DD|D|HH|H|mm|m|ss|s/g, token => {
-      switch (token) {
-        case 'YYYY':
-          return String(year);
-        case 'YY':
-          return String(year).slice(-2);
-        case 'MM':
-          return month;
-        case 'M':
-          return String(date.getMonth() + 1);
-        case 'DD':
-          return day;
-        case 'D':
-          return String(date.getDate());
-        case 'HH':
-          return hours;
-        case 'H':
-          return String(date.getHours());
-        case 'mm':
-          return minutes;
-        case 'm':
-          return String(date.getMinutes());
-        case 'ss':
-          return seconds;
-        case 's':
-          return String(date.getSeconds());
-        default:
-          return token;
+    return format.replace(
+      /YYYY|YY|MMMM|MMM|MM|M|dddd|ddd|DD|D|HH|H|mm|m|ss|s/g,
+      token => {
+        switch (token) {
+          case 'YYYY':
+            return String(year);
+          case 'YY':
+            return String(year).slice(-2);
+          case 'MMMM':
+            return MONTH_NAMES[date.getMonth()];
+          case 'MMM':
+            return MONTH_NAMES[date.getMonth()].slice(0, 3);
+          case 'dddd':
+            return DAY_NAMES[date.getDay()];
+          case 'ddd':
+            return DAY_NAMES[date.getDay()].slice(0, 3);
+          case 'MM':
+            return month;
+          case 'M':
+            return String(date.getMonth() + 1);
+          case 'DD':
+            return day;
+          case 'D':
+            return String(date.getDate());
+          case 'HH':
+            return hours;
+          case 'H':
+            return String(date.getHours());
+          case 'mm':
+            return minutes;
+          case 'm':
+            return String(date.getMinutes());
+          case 'ss':
+            return seconds;
+          case 's':
+            return String(date.getSeconds());
+          default:
+            return token;
+        }
       }
-    });
+    );
+  }
+
+  /**
+   * Parse a date written in a format such as 'YYYY-MM-DD' or 'DD.MM.YYYY'
+   */
+  private parseDate(text: string, format: string = 'YYYY-MM-DD'): Date {
+    const fields: string[] = [];
+    const pattern = format
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/YYYY|MM|M|DD|D|HH|H|mm|m|ss|s/g, token => {
+        fields.push(token[0]);
+        return token === 'YYYY' ? '(\\d{4})' : '(\\d{1,2})';
+      });
+    const match = text.trim().match(new RegExp(`^${pattern}$`));
+    if (!match) {
+      throw new Error(`'${text}' doesn't match date format '${format}'`);
+    }
+
+    const value = (field: string, fallback: number) => {
+      const index = fields.indexOf(field);
+      return index === -1 ? fallback : Number(match[index + 1]);
+    };
+    return new Date(
+      value('Y', 1970),
+      value('M', 1) - 1,
+      value('D', 1),
+      value('H', 0),
+      value('m', 0),
+      value('s', 0)
+    );
+  }
+
+  /**
+   * Shift a date by a number of days or an ISO 8601 duration like 'P1W'
+   * or '-P1M2D', as tp.date.now's offset argument does
+   */
+  private offsetDate(date: Date, offset: number | string = 0): Date {
+    const result = new Date(date);
+    if (typeof offset === 'number') {
+      result.setDate(result.getDate() + offset);
+      return result;
+    }
+
+    const match = offset.match(
+      /^([+-])?P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+    );
+    if (!match) {
+      throw new Error(`Invalid date offset '${offset}'`);
+    }
+    const sign = match[1] === '-' ? -1 : 1;
+    const [years, months, weeks, days, hours, minutes, seconds] = match
+      .slice(2)
+      .map(part => sign * Number(part || 0));
+
+    result.setFullYear(result.getFullYear() + years);
+    result.setMonth(result.getMonth() + months);
+    result.setDate(result.getDate() + weeks * 7 + days);
+    result.setHours(
+      result.getHours() + hours,
+      result.getMinutes() + minutes,
+      result.getSeconds() + seconds
+    );
+    return result;
   }
 
   /**
@@ -200,19 +518,93 @@ export class TemplateProcessor {
   }
 
   /**
-   * Process conditional logic in templates (stub)
+   * Process Templater tags - output expressions, if/else, for..of loops and
+   * assignment-only <%* %> blocks - with the sandboxed interpreter
    */
   private processConditionals(
     content: string,
-    _context: TemplateContext
+    context: TemplateContext,
+    values: Record<string, any>,
+    options: RenderOptions
   ): string {
-    console.log('processConditionals: Implementation pending');
+    return renderTemplate(
+      content,
+      { ...values, tp: this.createTemplaterScope(context) },
+      options
+    );
+  }
+
+  /**
+   * The `tp` object available to templates, following Templater's
+   * signatures. Weeks start on Monday for tp.date.weekday.
+   */
+  private createTemplaterScope(context: TemplateContext): Record<string, any> {
+    const defaultFormat = this.config.defaultDateFormat || 'YYYY-MM-DD';
+    const referenceDate = (reference?: string, referenceFormat?: string) =>
+      reference
+        ? this.parseDate(reference, referenceFormat)
+        : context.currentDate;
 
-    // Implementation will handle:
-    // - <% if (condition) { %>content<% } %>
-    // - <% for (item of array) { %>content<% } %>
-    // - Complex JavaScript expressions
+    return {
+      date: {
+        now: (
+          format?: string,
+          offset?: number | string,
+          reference?: string,
+          referenceFormat?: string
+        ) =>
+          this.formatDate(
+            this.offsetDate(referenceDate(reference, referenceFormat), offset),
+            format || defaultFormat
+          ),
+        today: (format?: string) =>
+          this.formatDate(context.currentDate, format || 'YYYY-MM-DD'),
+        tomorrow: (format?: string) =>
+          this.formatDate(
+            this.offsetDate(context.currentDate, 1),
+            format || 'YYYY-MM-DD'
+          ),
+        yesterday: (format?: string) =>
+          this.formatDate(
+            this.offsetDate(context.currentDate, -1),
+            format || 'YYYY-MM-DD'
+          ),
+        weekday: (
+          format: string = 'YYYY-MM-DD',
+          weekday: number = 0,
+          reference?: string,
+          referenceFormat?: string
+        ) => {
+          const date = referenceDate(reference, referenceFormat);
+          const monday = this.offsetDate(date, -((date.getDay() + 6) % 7));
+          return this.formatDate(this.offsetDate(monday, weekday), format);
+        },
+      },
+      file: context.file ? this.createFileScope(context, context.file) : {},
+      frontmatter: { ...context.file?.frontmatter },
+    };
+  }
 
-    return content;
+  private createFileScope(
+    context: TemplateContext,
+    file: TemplateFile
+  ): Record<string, any> {
+    const vaultRelative = (path: string) =>
+      relative(context.vaultPath, path).split(sep).join('/');
+
+    return {
+      title: this.extractFileTitle(file.path),
+      folder: (absolute: boolean = false) =>
+        absolute
+          ? vaultRelative(dirname(file.path))
+          : this.extractFolderName(file.path),
+      path: (relativePath: boolean = false) =>
+        relativePath ? vaultRelative(file.path) : file.path,
+      creation_date: (format: string = FILE_DATE_FORMAT) =>
+        this.formatDate(file.created || context.currentDate, format),
+      last_modified_date: (format: string = FILE_DATE_FORMAT) =>
+        this.formatDate(file.modified || context.currentDate, format),
+      tags: file.tags.map(tag => (tag.startsWith('#') ? tag : `#${tag}`)),
+    };
   }
 }
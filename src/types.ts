@@ -14,12 +14,15 @@ export interface VaultConfig {
   // New configuration options
   templaterLite?: boolean;
   wikilinkResolution?: boolean;
+  maxEmbedDepth?: number;
   fuzzyThreshold?: number;
   strictVariables?: boolean;
   defaultDateFormat?: string;
   // Prompt discovery thresholds
   promptFuzzyMatchThreshold?: number;
   promptSuggestionThreshold?: number;
+  promptSearchDepth?: number;
+  promptIgnorePatterns?: string[];
 }
 
 // Vault configuration file structure
@@ -38,12 +41,15 @@ export interface VaultConfigFile {
     cachePrompts: boolean;
     templaterLite: boolean;
     wikilinkResolution: boolean;
+    maxEmbedDepth?: number;
   };
   search: {
     maxResults: number;
     fuzzyThreshold: number;
     promptFuzzyMatchThreshold?: number;
     promptSuggestionThreshold?: number;
+    promptSearchDepth?: number;
+    promptIgnorePatterns?: string[];
   };
   variables: {
     strictValidation: boolean;
@@ -85,8 +91,9 @@ export interface PromptOptions {
 
 export interface PromptDiscoveryResult {
   path: string;
-  match: 'exact' | 'alias' | 'fuzzy' | 'content';
+  match: 'exact' | 'path' | 'alias' | 'fuzzy' | 'content';
   score?: number;
+  candidates?: PromptHit[];
 }
 
 // Enhanced getPrompted types
@@ -101,7 +108,7 @@ export interface PromptHit {
   name: string;
   path: string;
   score: number;
-  reason: 'exact' | 'alias' | 'fuzzy' | 'content';
+  reason: 'exact' | 'path' | 'alias' | 'fuzzy' | 'content';
   title?: string;
   aliases?: string[];
   tags?: string[];
@@ -110,7 +117,7 @@ export interface PromptHit {
 export interface VariableSpec {
   name: string;
   description?: string;
-  type: 'string' | 'number' | 'boolean' | 'date';
+  type: 'string' | 'number' | 'boolean' | 'date' | 'array';
   required: boolean;
   default?: any;
   options?: any[];
@@ -157,10 +164,16 @@ export interface GetPromptedResult {
     frontmatterExcerpt?: string;
   };
   content: string;
-  variablesUsed: Record<string, any>;
+  variablesUsed: Record<string, UsedVariable>;
   missingVariables: VariableSpec[];
+  // Every {{placeholder}} in the prompt and how it was filled
+  placeholders?: PlaceholderReport[];
   candidates: PromptHit[];
+  // Discovery strategy that found the prompt
+  matchedBy?: PromptDiscoveryResult['match'];
   unresolvedLinks: string[];
+  // Variables that failed validation when strictVariables is off
+  warnings?: string[];
   processing: {
     templaterProcessed: boolean;
     wikilinkResolution: boolean;
@@ -177,6 +190,28 @@ export interface GetPromptedResult {
   };
 }
 
+export interface ListPromptsOptions {
+  searchPaths?: string[];
+  folder?: string;
+  tags?: string[];
+  offset?: number;
+  limit?: number;
+  // Keep only the first prompt listed under each name
+  uniqueNames?: boolean;
+}
+
+export interface PromptSummary {
+  name: string;
+  path: string;
+  // Vault-relative search path the prompt was found under
+  searchPath: string;
+  title: string;
+  aliases: string[];
+  tags: string[];
+  description?: string;
+  variables: VariableSpec[];
+}
+
 // Task management types
 export interface TaskMetadata {
   client?: string;
@@ -201,6 +236,10 @@ export interface ChecklistItem {
   text: string;
   completed: boolean;
   subItems?: ChecklistItem[];
+  // 0-based line index in the source file, for targeted edits
+  line: number;
+  // Raw character inside the brackets (' ', 'x', '/', '-', ...)
+  status: string;
 }
 
 export interface Task {
@@ -219,12 +258,47 @@ export interface TemplateVariable {
   source: 'user' | 'computed' | 'default';
 }
 
+// A variable a rendered template read, and where its value came from
+export interface UsedVariable {
+  value: any;
+  source: TemplateVariable['source'];
+}
+
+// One {{placeholder}} occurrence in a rendered template
+export interface PlaceholderReport {
+  // As written, braces included
+  placeholder: string;
+  name: string;
+  filters: string[];
+  resolved: boolean;
+  value?: any;
+  source?: TemplateVariable['source'];
+}
+
+export interface TemplateRenderResult {
+  content: string;
+  placeholders: PlaceholderReport[];
+  variablesUsed: Record<string, UsedVariable>;
+  missingVariables: string[];
+}
+
+// The note a template renders for, exposed to templates as tp.file.* and
+// tp.frontmatter
+export interface TemplateFile {
+  path: string;
+  frontmatter: Record<string, any>;
+  tags: string[];
+  created?: Date;
+  modified?: Date;
+}
+
 export interface TemplateContext {
   variables: Record<string, TemplateVariable>;
   currentDate: Date;
   vaultPath: string;
   taskName?: string;
   promptName?: string;
+  file?: TemplateFile;
 }
 
 // Error types
@@ -25,6 +25,8 @@ declare module '@modelcontextprotocol/server-filesystem/dist/lib.js' {
     isFile: boolean;
     permissions: string;
   }>;
+  export function headFile(filePath: string, numLines: number): Promise<string>;
+  export function tailFile(filePath: string, numLines: number): Promise<string>;
   export function applyFileEdits(
     filePath: string,
     edits: Array<{ oldText: string; newText: string }>,
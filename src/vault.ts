@@ -0,0 +1,330 @@
+/**
+ * In-memory vault index
+ *
+ * Holds the parsed frontmatter, aliases, tags, titles and modification
+ * times of every note in the vault so prompt discovery doesn't re-read the
+ * vault on each lookup. When `cachePrompts` is enabled the index is built
+ * once and kept current with a recursive file watcher; otherwise each
+ * lookup reads the requested folder fresh.
+ */
+
+import { watch, FSWatcher } from 'fs';
+import { readFile, stat } from 'fs/promises';
+import { basename, join, relative, sep } from 'path';
+import { VaultConfig } from './types.js';
+import { ObsidianUtils } from './obsidian.js';
+import { isAllowedFileType, validateRealPath } from './security.js';
+import { walkDirectory, isExcluded } from './search.js';
+
+// Folders Obsidian uses for its own state, never indexed
+const INDEX_EXCLUDE_PATTERNS = ['.obsidian', '.trash'];
+
+/**
+ * A note as held by the vault index
+ */
+export interface VaultIndexEntry {
+  path: string;
+  relativePath: string;
+  name: string;
+  frontmatter: Record<string, any>;
+  aliases: string[];
+  tags: string[];
+  title: string;
+  content: string;
+  mtime: number;
+}
+
+export class VaultIndex {
+  private entries = new Map<string, VaultIndexEntry>();
+  // Every file in the vault, attachments included, for link resolution
+  private files = new Set<string>();
+  private pendingPaths = new Set<string>();
+  private watcher: FSWatcher | null = null;
+  private watching = false;
+  private buildPromise: Promise<void> | null = null;
+
+  constructor(
+    private config: VaultConfig,
+    private obsidianUtils: ObsidianUtils
+  ) {}
+
+  /**
+   * Get the notes inside a directory, descending `maxDepth` folder levels
+   * (0 = only notes directly inside it) and skipping excluded paths
+   */
+  async getEntries(
+    directory: string,
+    options: { maxDepth?: number; excludePatterns?: string[] } = {}
+  ): Promise<VaultIndexEntry[]> {
+    const maxDepth = options.maxDepth ?? 0;
+    const excludePatterns = options.excludePatterns || [];
+
+    if (!this.config.cachePrompts || !this.isInsideVault(directory)) {
+      return this.readDirectory(directory, maxDepth, excludePatterns);
+    }
+
+    await this.ensureCurrent();
+
+    return [...this.entries.values()]
+      .filter(entry => {
+        if (!entry.path.startsWith(`${directory}${sep}`)) return false;
+        const relativePath = relative(directory, entry.path)
+          .split(sep)
+          .join('/');
+        return (
+          relativePath.split('/').length - 1 <= maxDepth &&
+          !isExcluded(relativePath, entry.name, excludePatterns)
+        );
+      })
+      .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  }
+
+  /**
+   * List every file in the vault, attachments included, as vault-relative
+   * paths with forward slashes
+   */
+  async listFiles(): Promise<string[]> {
+    let files: string[];
+    if (this.config.cachePrompts) {
+      await this.ensureCurrent();
+      files = [...this.files];
+    } else {
+      files = [];
+      for await (const entry of walkDirectory(this.vaultRoot, {
+        allowedDirectories: this.config.allowedDirectories,
+        excludePatterns: INDEX_EXCLUDE_PATTERNS,
+      })) {
+        if (!entry.isDirectory) files.push(entry.path);
+      }
+    }
+
+    return files
+      .map(path => relative(this.vaultRoot, path).split(sep).join('/'))
+      .sort();
+  }
+
+  /**
+   * Stop watching the vault and drop the cached entries
+   */
+  close(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    this.watching = false;
+    this.buildPromise = null;
+    this.entries.clear();
+    this.files.clear();
+    this.pendingPaths.clear();
+  }
+
+  /**
+   * Build the index on first use, then apply changes reported by the
+   * watcher. Without a working watcher every call rescans for changed
+   * modification times instead.
+   */
+  private async ensureCurrent(): Promise<void> {
+    if (!this.buildPromise) {
+      this.buildPromise = this.build();
+    }
+    await this.buildPromise;
+
+    if (!this.watching) {
+      await this.rescan(this.vaultRoot);
+    } else if (this.pendingPaths.size > 0) {
+      const paths = [...this.pendingPaths];
+      this.pendingPaths.clear();
+      for (const path of paths) {
+        await this.refreshPath(path);
+      }
+    }
+  }
+
+  private async build(): Promise<void> {
+    this.startWatching();
+    await this.rescan(this.vaultRoot);
+  }
+
+  /**
+   * Watch the vault recursively, queueing changed paths for the next lookup
+   */
+  private startWatching(): void {
+    try {
+      this.watcher = watch(
+        this.vaultRoot,
+        { recursive: true },
+        (_event, filename) => {
+          this.pendingPaths.add(
+            filename
+              ? join(this.vaultRoot, filename.toString())
+              : this.vaultRoot
+          );
+        }
+      );
+      this.watcher.on('error', () => {
+        // Fall back to rescanning on each lookup
+        this.watcher?.close();
+        this.watcher = null;
+        this.watching = false;
+      });
+      this.watcher.unref();
+      this.watching = true;
+    } catch (error: any) {
+      console.warn(
+        `Vault watcher unavailable, rescanning on each lookup: ${error.message}`
+      );
+      this.watching = false;
+    }
+  }
+
+  /**
+   * Re-read a changed file, or rescan a changed directory. Symlinks that
+   * lead outside the allowed directories are dropped like deleted files.
+   */
+  private async refreshPath(path: string): Promise<void> {
+    let isDirectory: boolean;
+    try {
+      await validateRealPath(path, this.config.allowedDirectories);
+      isDirectory = (await stat(path)).isDirectory();
+    } catch {
+      // Deleted, renamed away or linked outside - drop it and anything
+      // beneath it
+      for (const key of [...this.entries.keys(), ...this.files]) {
+        if (key === path || key.startsWith(`${path}${sep}`)) {
+          this.entries.delete(key);
+          this.files.delete(key);
+        }
+      }
+      return;
+    }
+
+    if (isDirectory) {
+      await this.rescan(path);
+      return;
+    }
+    if (!this.isExcludedPath(path)) this.files.add(path);
+    if (this.isIndexable(path)) {
+      // The watcher saw a change, so don't trust an unchanged mtime
+      await this.updateEntry(path, true);
+    }
+  }
+
+  /**
+   * Walk a directory, re-reading notes whose modification time changed and
+   * dropping notes that no longer exist
+   */
+  private async rescan(directory: string): Promise<void> {
+    const seen = new Set<string>();
+
+    for await (const entry of walkDirectory(directory, {
+      allowedDirectories: this.config.allowedDirectories,
+      excludePatterns: INDEX_EXCLUDE_PATTERNS,
+    })) {
+      if (entry.isDirectory) continue;
+      seen.add(entry.path);
+      this.files.add(entry.path);
+      if (this.isIndexable(entry.path)) await this.updateEntry(entry.path);
+    }
+
+    for (const key of [...this.entries.keys(), ...this.files]) {
+      if (key.startsWith(`${directory}${sep}`) && !seen.has(key)) {
+        this.entries.delete(key);
+        this.files.delete(key);
+      }
+    }
+  }
+
+  private async updateEntry(path: string, force = false): Promise<void> {
+    const existing = this.entries.get(path);
+    if (existing && !force) {
+      try {
+        if ((await stat(path)).mtimeMs === existing.mtime) return;
+      } catch {
+        this.entries.delete(path);
+        return;
+      }
+    }
+
+    const entry = await this.loadEntry(path);
+    if (entry) {
+      this.entries.set(path, entry);
+    } else {
+      this.entries.delete(path);
+    }
+  }
+
+  /**
+   * Read and parse one note, or return null if it can't be read or parsed
+   */
+  private async loadEntry(path: string): Promise<VaultIndexEntry | null> {
+    try {
+      const [raw, stats] = await Promise.all([
+        readFile(path, 'utf-8'),
+        stat(path),
+      ]);
+      const parsed = this.obsidianUtils.parseObsidianFile(raw);
+      const name = basename(path);
+
+      return {
+        path,
+        relativePath: relative(this.vaultRoot, path).split(sep).join('/'),
+        name,
+        frontmatter: parsed.frontmatter,
+        aliases: parsed.aliases,
+        tags: parsed.tags,
+        title:
+          typeof parsed.frontmatter.title === 'string'
+            ? parsed.frontmatter.title
+            : name.replace(/\.(md|txt|json)$/, ''),
+        content: parsed.content,
+        mtime: stats.mtimeMs,
+      };
+    } catch {
+      // Skip files that can't be read or parsed
+      return null;
+    }
+  }
+
+  /**
+   * Read a directory's notes directly, bypassing the cache
+   */
+  private async readDirectory(
+    directory: string,
+    maxDepth: number,
+    excludePatterns: string[]
+  ): Promise<VaultIndexEntry[]> {
+    const entries: VaultIndexEntry[] = [];
+
+    for await (const walkEntry of walkDirectory(directory, {
+      allowedDirectories: this.config.allowedDirectories,
+      excludePatterns: [...INDEX_EXCLUDE_PATTERNS, ...excludePatterns],
+      maxDepth,
+    })) {
+      if (walkEntry.isDirectory || !isAllowedFileType(walkEntry.name)) {
+        continue;
+      }
+      const entry = await this.loadEntry(walkEntry.path);
+      if (entry) entries.push(entry);
+    }
+
+    return entries.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  }
+
+  private isIndexable(path: string): boolean {
+    return isAllowedFileType(path) && !this.isExcludedPath(path);
+  }
+
+  private isExcludedPath(path: string): boolean {
+    const relativePath = relative(this.vaultRoot, path).split(sep).join('/');
+    return isExcluded(relativePath, basename(path), INDEX_EXCLUDE_PATTERNS);
+  }
+
+  private isInsideVault(directory: string): boolean {
+    return (
+      directory === this.vaultRoot ||
+      directory.startsWith(`${this.vaultRoot}${sep}`)
+    );
+  }
+
+  private get vaultRoot(): string {
+    return this.config.allowedDirectories[0];
+  }
+}
@@ -116,4 +116,352 @@ describe('Filesystem Integration', () => {
     expect(directories).toContain('Allowed directories:');
     expect(directories).toContain(testDir);
   });
+
+  it('should recursively search files with substring and glob patterns', async () => {
+    await fs.mkdir(join(testDir, 'notes', 'sessions'), { recursive: true });
+    await fs.mkdir(join(testDir, '.obsidian'));
+    await fs.writeFile(join(testDir, 'notes', 'Intake Notes.md'), 'a');
+    await fs.writeFile(join(testDir, 'notes', 'sessions', 'session-1.md'), 'b');
+    await fs.writeFile(
+      join(testDir, 'notes', 'sessions', 'session-2.txt'),
+      'c'
+    );
+    await fs.writeFile(join(testDir, '.obsidian', 'session.json'), '{}');
+
+    const substring = await enhancedServer['handleSearchFiles']({
+      path: testDir,
+      pattern: 'session',
+      excludePatterns: ['.obsidian'],
+    });
+    const substringText = substring.content[0].text;
+    expect(substringText).toContain(join('notes', 'sessions'));
+    expect(substringText).toContain('session-1.md');
+    expect(substringText).not.toContain('.obsidian');
+
+    const glob = await enhancedServer['handleSearchFiles']({
+      path: testDir,
+      pattern: '**/*.md',
+      excludePatterns: ['.obsidian'],
+    });
+    const globText = glob.content[0].text;
+    expect(globText).toContain('Intake Notes.md');
+    expect(globText).toContain('session-1.md');
+    expect(globText).not.toContain('session-2.txt');
+  });
+
+  it('should cap search results at maxSearchResults', async () => {
+    for (let i = 0; i < 12; i++) {
+      await fs.writeFile(join(testDir, `note-${i}.md`), '');
+    }
+
+    const result = await enhancedServer['handleSearchFiles']({
+      path: testDir,
+      pattern: '*.md',
+    });
+    const lines = result.content[0].text
+      .split('\n')
+      .filter((line: string) => line.endsWith('.md'));
+
+    expect(lines).toHaveLength(10);
+    expect(result.content[0].text).toContain('Results limited to 10 matches');
+  });
+
+  it('should not follow symlinks outside allowed directories', async () => {
+    const outsideDir = await fs.realpath(
+      await fs.mkdtemp(join(tmpdir(), 'mcp-outside-'))
+    );
+    try {
+      await fs.writeFile(join(outsideDir, 'secret-note.md'), 'secret');
+      await fs.symlink(outsideDir, join(testDir, 'linked'));
+
+      const result = await enhancedServer['handleSearchFiles']({
+        path: testDir,
+        pattern: 'secret',
+      });
+
+      expect(result.content[0].text).toBe('No matches found');
+    } finally {
+      await fs.rm(outsideDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should search note contents with ranked snippets', async () => {
+    await fs.mkdir(join(testDir, 'notes'));
+    await fs.writeFile(
+      join(testDir, 'notes', 'stoicism.md'),
+      '---\ntitle: Stoicism\ntags: [philosophy]\n---\n\nIntro\nOn stoicism and virtue\nOutro\n'
+    );
+    await fs.writeFile(
+      join(testDir, 'notes', 'journal.md'),
+      'Read about stoicism today #reading\n'
+    );
+    await fs.writeFile(join(testDir, 'notes', 'data.json'), '"stoicism"');
+
+    const result = await enhancedServer['handleSearchContent']({
+      query: 'stoicism',
+      folder: 'notes',
+    });
+    const text = result.content[0].text;
+
+    expect(text).toContain('Found 3 matches in 2 files');
+    // Title match ranks stoicism.md ahead of the journal entry
+    expect(text.indexOf('stoicism.md:7')).toBeLessThan(
+      text.indexOf('journal.md:1')
+    );
+    expect(text).toContain('> 7: On stoicism and virtue');
+    expect(text).toContain('  6: Intro');
+    expect(text).not.toContain('data.json');
+
+    const tagged = await enhancedServer['handleSearchContent']({
+      query: 'stoic\\w+',
+      regex: true,
+      tags: ['reading'],
+    });
+    expect(tagged.content[0].text).toContain('journal.md:1');
+    expect(tagged.content[0].text).not.toContain('stoicism.md');
+  });
+
+  it('should not search a folder that links outside allowed directories', async () => {
+    const outsideDir = await fs.realpath(
+      await fs.mkdtemp(join(tmpdir(), 'mcp-outside-'))
+    );
+    try {
+      await fs.writeFile(join(outsideDir, 'config.md'), 'password=hunter2');
+      await fs.symlink(outsideDir, join(testDir, 'link'));
+
+      const result = await enhancedServer['handleSearchContent']({
+        query: 'password',
+        folder: 'link',
+      });
+
+      expect(result.content[0].text).toContain(
+        'links outside allowed directories'
+      );
+      expect(result.content[0].text).not.toContain('hunter2');
+    } finally {
+      await fs.rm(outsideDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should report invalid regex queries for content search', async () => {
+    const result = await enhancedServer['handleSearchContent']({
+      query: '(unclosed',
+      regex: true,
+    });
+
+    expect(result.content[0].text).toContain('Invalid regular expression');
+  });
+
+  it('should preview and apply edits with edit_file', async () => {
+    const testFile = join(testDir, 'session.md');
+    await fs.writeFile(testFile, '# Session\n\nStatus: draft\nNotes here\n');
+
+    const preview = await enhancedServer['handleEditFile']({
+      path: testFile,
+      edits: [{ oldText: 'Status: draft', newText: 'Status: final' }],
+      dryRun: true,
+    });
+
+    expect(preview.content[0].text).toContain('-Status: draft');
+    expect(preview.content[0].text).toContain('+Status: final');
+    expect(await fs.readFile(testFile, 'utf-8')).toContain('Status: draft');
+
+    await enhancedServer['handleEditFile']({
+      path: testFile,
+      edits: [{ oldText: 'Status: draft', newText: 'Status: final' }],
+    });
+
+    expect(await fs.readFile(testFile, 'utf-8')).toBe(
+      '# Session\n\nStatus: final\nNotes here\n'
+    );
+  });
+
+  it('should write replacement patterns in newText literally', async () => {
+    const testFile = join(testDir, 'math.md');
+    await fs.writeFile(testFile, 'Formula: TODO\n');
+
+    await enhancedServer['handleEditFile']({
+      path: testFile,
+      edits: [{ oldText: 'TODO', newText: '$$x^2$$ costs $& and $`' }],
+    });
+
+    expect(await fs.readFile(testFile, 'utf-8')).toBe(
+      'Formula: $$x^2$$ costs $& and $`\n'
+    );
+  });
+
+  it('should reject edits whose oldText does not match exactly once', async () => {
+    const testFile = join(testDir, 'repeat.md');
+    await fs.writeFile(testFile, '- [ ] item\n- [ ] item\n');
+
+    await expect(
+      enhancedServer['handleEditFile']({
+        path: testFile,
+        edits: [{ oldText: '- [ ] item', newText: '- [x] item' }],
+      })
+    ).rejects.toThrow('matches 2 times');
+
+    await expect(
+      enhancedServer['handleEditFile']({
+        path: testFile,
+        edits: [{ oldText: 'missing', newText: 'x' }],
+      })
+    ).rejects.toThrow('was not found');
+
+    expect(await fs.readFile(testFile, 'utf-8')).toBe(
+      '- [ ] item\n- [ ] item\n'
+    );
+  });
+
+  it('should honor head, tail and offset/limit when reading', async () => {
+    const testFile = join(testDir, 'log.md');
+    const lines = Array.from({ length: 50 }, (_, i) => `line ${i + 1}`);
+    await fs.writeFile(testFile, lines.join('\n'));
+
+    const head = await enhancedServer['handleReadTextFile']({
+      path: testFile,
+      head: 2,
+    });
+    expect(head.content[0].text).toBe('line 1\nline 2');
+
+    const tail = await enhancedServer['handleReadTextFile']({
+      path: testFile,
+      tail: 2,
+    });
+    expect(tail.content[0].text).toBe('line 49\nline 50');
+
+    const range = await enhancedServer['handleReadTextFile']({
+      path: testFile,
+      offset: 10,
+      limit: 3,
+    });
+    expect(range.content[0].text).toBe('line 10\nline 11\nline 12');
+
+    await expect(
+      enhancedServer['handleReadTextFile']({
+        path: testFile,
+        head: 2,
+        tail: 2,
+      })
+    ).rejects.toThrow('Specify only one of head, tail, or offset/limit');
+  });
+
+  it('should list ranked candidates for ambiguous prompts', async () => {
+    await fs.mkdir(join(testDir, 'prompts', 'intake'), { recursive: true });
+    await fs.mkdir(join(testDir, 'prompts', 'ethics'), { recursive: true });
+    await fs.writeFile(join(testDir, 'prompts', 'intake', 'session.md'), 'A');
+    await fs.writeFile(
+      join(testDir, 'prompts', 'ethics', 'session.md'),
+      '---\ntitle: Ethics Session\n---\nB'
+    );
+
+    const result = await enhancedServer['handleGetPrompted']({
+      promptName: 'session',
+    });
+
+    expect(result.content[0].text).toBe(
+      [
+        "❓ Several prompts match 'session':",
+        '',
+        '1. ethics/session - Ethics Session (exact, score 0.90)',
+        '2. intake/session (exact, score 0.90)',
+        '',
+        'Call get_prompted again with one of these names.',
+      ].join('\n')
+    );
+  });
+
+  it('should list prompts with pagination through list_prompts', async () => {
+    await fs.mkdir(join(testDir, 'prompts'), { recursive: true });
+    await fs.writeFile(
+      join(testDir, 'prompts', 'intake.md'),
+      '---\ntitle: Client Intake\ntags: [client]\nprompt-vars: [client]\n---\nBody'
+    );
+    await fs.writeFile(join(testDir, 'prompts', 'summary.md'), 'Summary');
+
+    const result = await enhancedServer['handleListPrompts']({ limit: 1 });
+
+    expect(result.content[0].text).toBe(
+      [
+        'Prompts 1-1 of 2',
+        '',
+        '## intake - Client Intake',
+        'Tags: client',
+        'Variables: client (string, required)',
+        '',
+        'Use offset 1 to see more prompts.',
+      ].join('\n')
+    );
+  });
+
+  it('should serve prompt files as MCP prompts', async () => {
+    await fs.mkdir(join(testDir, 'prompts', 'intake'), { recursive: true });
+    await fs.writeFile(
+      join(testDir, 'prompts', 'intake', 'session.md'),
+      [
+        '---',
+        'title: Client Intake',
+        'description: First session questions',
+        'prompt-vars:',
+        '  client:',
+        '    type: string',
+        '    description: Client name',
+        '  focus:',
+        '    required: false',
+        '    default: general',
+        '---',
+        'Welcome {{client}} ({{focus}})',
+      ].join('\n')
+    );
+    await fs.writeFile(join(testDir, 'prompts', 'session.md'), 'Top level');
+    await fs.mkdir(join(testDir, 'templates'), { recursive: true });
+    await fs.writeFile(join(testDir, 'templates', 'session.md'), 'Template');
+
+    const list = await enhancedServer['handleListMcpPrompts']();
+    expect(list.nextCursor).toBeUndefined();
+    expect(list.prompts).toEqual([
+      {
+        name: 'intake/session',
+        title: 'Client Intake',
+        description: 'First session questions',
+        arguments: [
+          {
+            name: 'client',
+            description: 'Client name (string)',
+            required: true,
+          },
+          { name: 'focus', description: 'string', required: false },
+        ],
+      },
+      {
+        name: 'session',
+        title: 'session',
+        description: undefined,
+        arguments: [],
+      },
+    ]);
+
+    const prompt = await enhancedServer['handleGetMcpPrompt'](
+      'intake/session',
+      {
+        client: 'Ada',
+      }
+    );
+    expect(prompt.description).toBe('Client Intake');
+    expect(prompt.messages).toEqual([
+      {
+        role: 'user',
+        content: { type: 'text', text: 'Welcome Ada (general)' },
+      },
+    ]);
+
+    const topLevel = await enhancedServer['handleGetMcpPrompt']('session');
+    expect(topLevel.messages[0].content.text).toBe('Top level');
+
+    await expect(
+      enhancedServer['handleGetMcpPrompt']('intake/session')
+    ).rejects.toThrow(
+      "Missing required arguments for prompt 'intake/session': client"
+    );
+  });
 });
@@ -0,0 +1,160 @@
+/**
+ * Tests for ObsidianUtils wikilink resolution and variable coercion
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ObsidianUtils } from '../src/obsidian.js';
+import type { VaultConfig } from '../src/types.js';
+
+describe('ObsidianUtils wikilinks', () => {
+  let testDir: string;
+  let obsidianUtils: ObsidianUtils;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(
+      await fs.mkdtemp(join(tmpdir(), 'mcp-obsidian-'))
+    );
+
+    const config: VaultConfig = {
+      allowedDirectories: [testDir],
+      promptsPath: 'prompts',
+      tasksPath: 'tasks',
+      templatesPath: 'templates',
+      enableObsidianFeatures: true,
+      cachePrompts: false,
+      maxSearchResults: 10,
+    };
+    obsidianUtils = new ObsidianUtils(config);
+
+    await fs.mkdir(join(testDir, 'prompts', 'ethics'), { recursive: true });
+    await fs.mkdir(join(testDir, 'archive'), { recursive: true });
+    await fs.writeFile(
+      join(testDir, 'prompts', 'ethics', 'Ethics Preamble.md'),
+      '# Ethics Preamble\n\n## Informed Consent\n\nAlways ask. ^consent-1\n'
+    );
+    await fs.writeFile(join(testDir, 'Client Intake.md'), '# Intake\n');
+    await fs.writeFile(join(testDir, 'archive', 'Client Intake.md'), 'old\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should resolve by shortest unique path, case-insensitively', async () => {
+    const { content, unresolved } = await obsidianUtils.resolveWikilinks(
+      'See [[ethics preamble]], [[Client Intake|intake form]] and [[archive/client intake]].'
+    );
+
+    expect(content).toBe(
+      'See [ethics preamble](prompts/ethics/Ethics%20Preamble.md), [intake form](Client%20Intake.md) and [client intake](archive/Client%20Intake.md).'
+    );
+    expect(unresolved).toEqual([]);
+  });
+
+  it('should resolve headings and block references', async () => {
+    const { content } = await obsidianUtils.resolveWikilinks(
+      '[[Ethics Preamble#informed consent]] [[Ethics Preamble^consent-1]]',
+      { mode: 'path' }
+    );
+
+    expect(content).toBe(
+      'prompts/ethics/Ethics Preamble.md#Informed Consent prompts/ethics/Ethics Preamble.md#^consent-1'
+    );
+  });
+
+  it('should report unresolved links and leave code and embeds alone', async () => {
+    const { content, unresolved } = await obsidianUtils.resolveWikilinks(
+      '[[Missing Note]] [[Ethics Preamble#No Such Heading]] `[[Client Intake]]` ![[Client Intake]]'
+    );
+
+    expect(content).toBe(
+      '[[Missing Note]] [[Ethics Preamble#No Such Heading]] `[[Client Intake]]` ![[Client Intake]]'
+    );
+    expect(unresolved).toEqual([
+      'Missing Note',
+      'Ethics Preamble#No Such Heading',
+    ]);
+  });
+
+  it('should only list vault files when content has links', async () => {
+    let calls = 0;
+    const listFiles = async () => {
+      calls++;
+      return ['Guidelines.md'];
+    };
+
+    await obsidianUtils.resolveWikilinks('No links', { listFiles });
+    await obsidianUtils.transcludeEmbeds('No embeds', { listFiles });
+    expect(calls).toBe(0);
+
+    const { content } = await obsidianUtils.resolveWikilinks('[[Guidelines]]', {
+      listFiles,
+    });
+    expect(content).toBe('[Guidelines](Guidelines.md)');
+    expect(calls).toBe(1);
+  });
+
+  it('should resolve a wikilink target to an absolute path', async () => {
+    expect(
+      await obsidianUtils.resolveWikilinkTarget('[[ethics preamble]]')
+    ).toBe(join(testDir, 'prompts', 'ethics', 'Ethics Preamble.md'));
+    expect(await obsidianUtils.resolveWikilinkTarget('nope')).toBeNull();
+  });
+});
+
+describe('ObsidianUtils variable coercion', () => {
+  const obsidianUtils = new ObsidianUtils({
+    allowedDirectories: [tmpdir()],
+    promptsPath: 'prompts',
+    tasksPath: 'tasks',
+    templatesPath: 'templates',
+    enableObsidianFeatures: true,
+    cachePrompts: false,
+    maxSearchResults: 10,
+  });
+  // Monday 19 October 2026
+  const now = new Date(2026, 9, 19, 15, 30);
+
+  it('should resolve natural-language dates relative to now', () => {
+    const phrases = [
+      'today',
+      'tomorrow',
+      'yesterday',
+      'in 3 days',
+      '2 weeks ago',
+      'in 1 month',
+      'friday',
+      'monday',
+      'next monday',
+      'last friday',
+      'October 30, 2026',
+    ];
+    const specs = phrases.map(name => ({
+      name,
+      type: 'date' as const,
+      required: true,
+    }));
+
+    const coerced = obsidianUtils.coerceVariables(
+      specs,
+      Object.fromEntries(phrases.map(phrase => [phrase, phrase])),
+      now
+    );
+
+    expect(phrases.map(phrase => coerced[phrase])).toEqual([
+      '2026-10-19',
+      '2026-10-20',
+      '2026-10-18',
+      '2026-10-22',
+      '2026-10-05',
+      '2026-11-19',
+      '2026-10-23',
+      '2026-10-19',
+      '2026-10-26',
+      '2026-10-16',
+      '2026-10-30',
+    ]);
+  });
+});
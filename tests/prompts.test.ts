@@ -0,0 +1,545 @@
+/**
+ * Tests for PromptManager.getPrompted processing
+ */
+
+import { promises as fs } from 'fs';
+import { basename, join } from 'path';
+import { tmpdir } from 'os';
+import { PromptManager } from '../src/prompts.js';
+import { ObsidianUtils } from '../src/obsidian.js';
+import type { VaultConfig } from '../src/types.js';
+
+describe('PromptManager', () => {
+  let testDir: string;
+  let config: VaultConfig;
+  let promptManager: PromptManager;
+
+  const writePrompt = async (relativePath: string, content: string) => {
+    const fullPath = join(testDir, 'prompts', relativePath);
+    await fs.mkdir(join(fullPath, '..'), { recursive: true });
+    await fs.writeFile(fullPath, content);
+  };
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(
+      await fs.mkdtemp(join(tmpdir(), 'mcp-prompts-'))
+    );
+
+    config = {
+      allowedDirectories: [testDir],
+      promptsPath: 'prompts',
+      tasksPath: 'tasks',
+      templatesPath: 'templates',
+      enableObsidianFeatures: true,
+      cachePrompts: false,
+      maxSearchResults: 10,
+      templaterLite: true,
+      promptFuzzyMatchThreshold: 0.3,
+      promptSuggestionThreshold: 0.2,
+    };
+
+    promptManager = new PromptManager(config, new ObsidianUtils(config));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('discovery', () => {
+    it('should find prompts in nested folders by name and path', async () => {
+      await writePrompt('intake/session.md', 'Intake session');
+      await writePrompt('ethics/session.md', 'Ethics session');
+      await writePrompt('ethics/dilemmas/trolley.md', 'Trolley');
+
+      const byPath = await promptManager.getPrompted('ethics/session');
+      expect(byPath.content).toBe('Ethics session');
+
+      const byName = await promptManager.getPrompted('trolley');
+      expect(byName.content).toBe('Trolley');
+
+      const bySuffix = await promptManager.getPrompted('dilemmas/trolley.md');
+      expect(bySuffix.content).toBe('Trolley');
+    });
+
+    it('should honor ignore patterns and the folder depth limit', async () => {
+      config.promptSearchDepth = 1;
+      config.promptIgnorePatterns = ['archive'];
+      await writePrompt('archive/retired.md', 'Old');
+      await writePrompt('a/b/deep.md', 'Deep');
+
+      const retired = await promptManager.getPrompted('retired');
+      expect(retired.error?.message).toMatch(/^Prompt not found: retired/);
+
+      const deep = await promptManager.getPrompted('deep');
+      expect(deep.error?.message).toMatch(/^Prompt not found: deep/);
+
+      config.promptSearchDepth = 2;
+      expect((await promptManager.getPrompted('deep')).content).toBe('Deep');
+    });
+  });
+
+  describe('candidates', () => {
+    it('should return ranked candidates instead of guessing', async () => {
+      await writePrompt('intake/session.md', 'Intake');
+      await writePrompt('ethics/session.md', 'Ethics');
+
+      const result = await promptManager.getPrompted('session');
+
+      expect(result.resolved).toBe(false);
+      expect(result.error?.code).toBe('ambiguous_prompt');
+      expect(
+        result.candidates.map(hit => [hit.name, hit.reason, hit.score])
+      ).toEqual([
+        ['ethics/session', 'exact', 0.9],
+        ['intake/session', 'exact', 0.9],
+      ]);
+    });
+
+    it('should resolve a clear winner and list runners-up on request', async () => {
+      await writePrompt('session.md', 'Top level');
+      await writePrompt('intake/session.md', 'Nested');
+      await writePrompt('notes.md', 'A session about sessions');
+
+      const result = await promptManager.getPrompted(
+        'session',
+        {},
+        { returnCandidates: true, maxCandidates: 2 }
+      );
+
+      expect(result.content).toBe('Top level');
+      expect(result.confidence).toBe(1.0);
+      expect(result.candidates.map(hit => hit.name)).toEqual([
+        'session',
+        'intake/session',
+      ]);
+
+      const quiet = await promptManager.getPrompted('session');
+      expect(quiet.candidates).toEqual([]);
+    });
+  });
+
+  describe('searchMode', () => {
+    beforeEach(async () => {
+      await writePrompt('session-notes.md', 'Notes');
+      await writePrompt('summary.md', '---\naliases: [session]\n---\nSummary');
+    });
+
+    it('should report which strategy matched in auto mode', async () => {
+      const result = await promptManager.getPrompted('session');
+
+      expect(result.content).toBe('Summary');
+      expect(result.matchedBy).toBe('alias');
+    });
+
+    it('should restrict discovery to the requested strategy', async () => {
+      const fuzzy = await promptManager.getPrompted(
+        'session',
+        {},
+        { searchMode: 'fuzzy' }
+      );
+      expect(fuzzy.content).toBe('Notes');
+      expect(fuzzy.matchedBy).toBe('fuzzy');
+
+      const exact = await promptManager.getPrompted(
+        'session',
+        {},
+        { searchMode: 'exact' }
+      );
+      expect(exact.resolved).toBe(false);
+      expect(exact.error?.message).toMatch(
+        /^Prompt not found: session \(searchMode: exact\)/
+      );
+
+      const path = await promptManager.getPrompted(
+        'summary',
+        {},
+        { searchMode: 'path' }
+      );
+      expect(path.matchedBy).toBe('path');
+    });
+  });
+
+  describe('wikilinks', () => {
+    it('should resolve wikilinks and report unresolved targets', async () => {
+      await writePrompt('Guidelines.md', '# Guidelines\n');
+      await writePrompt(
+        'session.md',
+        'Follow [[Guidelines]] and [[Nonexistent]] for {{client}}.'
+      );
+
+      const result = await promptManager.getPrompted(
+        'session',
+        { client: 'Ada' },
+        { resolveWikilinks: true }
+      );
+
+      expect(result.content).toBe(
+        'Follow [Guidelines](prompts/Guidelines.md) and [[Nonexistent]] for Ada.'
+      );
+      expect(result.unresolvedLinks).toEqual(['Nonexistent']);
+      expect(result.processing.wikilinkResolution).toBe(true);
+    });
+
+    it('should leave wikilinks alone unless resolution is enabled', async () => {
+      await writePrompt('session.md', 'Follow [[Guidelines]].');
+
+      const result = await promptManager.getPrompted('session');
+
+      expect(result.content).toBe('Follow [[Guidelines]].');
+      expect(result.processing.wikilinkResolution).toBe(false);
+    });
+  });
+
+  describe('listPrompts', () => {
+    beforeEach(async () => {
+      await writePrompt(
+        'intake/session.md',
+        [
+          '---',
+          'title: Client Intake',
+          'description: First session questions',
+          'aliases: [intake]',
+          'tags: [client/intake]',
+          'prompt-vars:',
+          '  client: string',
+          '  date:',
+          '    type: date',
+          '    required: false',
+          '---',
+          'Body',
+        ].join('\n')
+      );
+      await writePrompt('ethics/dilemma.md', 'Consider #ethics');
+      await writePrompt('archive/old.md', 'Old');
+      await writePrompt('summary.md', 'Summary');
+    });
+
+    it('should list prompts with their metadata and variables', async () => {
+      const { prompts, total } = await promptManager.listPrompts();
+
+      expect(total).toBe(3);
+      expect(prompts.map(prompt => prompt.name)).toEqual([
+        'ethics/dilemma',
+        'intake/session',
+        'summary',
+      ]);
+      expect(prompts[1]).toMatchObject({
+        title: 'Client Intake',
+        description: 'First session questions',
+        aliases: ['intake'],
+        tags: ['client/intake'],
+        variables: [
+          { name: 'client', type: 'string', required: true },
+          { name: 'date', type: 'date', required: false },
+        ],
+      });
+    });
+
+    it('should filter by folder and tags and paginate', async () => {
+      const byFolder = await promptManager.listPrompts({ folder: 'intake' });
+      expect(byFolder.prompts.map(prompt => prompt.name)).toEqual([
+        'intake/session',
+      ]);
+
+      const byTag = await promptManager.listPrompts({ tags: ['ethics'] });
+      expect(byTag.prompts.map(prompt => prompt.name)).toEqual([
+        'ethics/dilemma',
+      ]);
+
+      const nested = await promptManager.listPrompts({ tags: ['client'] });
+      expect(nested.total).toBe(1);
+
+      const page = await promptManager.listPrompts({ offset: 1, limit: 1 });
+      expect(page.total).toBe(3);
+      expect(page.prompts.map(prompt => prompt.name)).toEqual([
+        'intake/session',
+      ]);
+    });
+
+    it('should reject search paths outside the vault', async () => {
+      const outside = await fs.realpath(
+        await fs.mkdtemp(join(tmpdir(), 'mcp-outside-'))
+      );
+      await fs.writeFile(join(outside, 'secret.md'), 'Secret');
+      await fs.symlink(outside, join(testDir, 'link'));
+
+      try {
+        for (const searchPaths of [[`../${basename(outside)}`], ['link']]) {
+          await expect(
+            promptManager.listPrompts({ searchPaths })
+          ).rejects.toMatchObject({ code: 'invalid_search_path' });
+
+          const result = await promptManager.getPrompted(
+            'secret',
+            {},
+            { searchPaths }
+          );
+          expect(result.resolved).toBe(false);
+          expect(result.error?.code).toBe('invalid_search_path');
+        }
+      } finally {
+        await fs.rm(outside, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('embeds', () => {
+    it('should transclude notes without frontmatter before substitution', async () => {
+      await writePrompt(
+        'partials/Signature.md',
+        '---\nprompt-vars:\n  sender: string\n---\nRegards, {{sender}}'
+      );
+      await writePrompt('letter.md', 'Dear {{client}},\n\n![[Signature]]');
+
+      const missing = await promptManager.getPrompted('letter', {
+        client: 'Ada',
+      });
+      expect(missing.missingVariables.map(spec => spec.name)).toEqual([
+        'sender',
+      ]);
+
+      const result = await promptManager.getPrompted('letter', {
+        client: 'Ada',
+        sender: 'Tam',
+      });
+      expect(result.content).toBe('Dear Ada,\n\nRegards, Tam');
+    });
+
+    it('should inline only the referenced heading or block', async () => {
+      await writePrompt(
+        'Rules.md',
+        [
+          '# Rules',
+          '## Tone',
+          'Be kind.',
+          '### Detail',
+          'Be specific.',
+          '## Length',
+          'Be brief.',
+          '',
+          'Cite sources. ^cite',
+        ].join('\n')
+      );
+      await writePrompt('review.md', '![[Rules#Tone]]\n\n![[Rules#^cite]]');
+
+      const result = await promptManager.getPrompted('review');
+
+      expect(result.content).toBe(
+        '## Tone\nBe kind.\n### Detail\nBe specific.\n\nCite sources.'
+      );
+    });
+
+    it('should report cycles and missing embeds', async () => {
+      await writePrompt('a.md', 'A ![[b]]');
+      await writePrompt('b.md', 'B ![[a]]');
+      await writePrompt('c.md', 'C ![[Missing]] ![[diagram.png]]');
+      await writePrompt('diagram.png', '');
+
+      const cycle = await promptManager.getPrompted('a');
+      expect(cycle.resolved).toBe(false);
+      expect(cycle.error?.code).toBe('embed_cycle');
+
+      const missing = await promptManager.getPrompted('c');
+      expect(missing.content).toBe('C ![[Missing]] ![[diagram.png]]');
+      expect(missing.unresolvedLinks).toEqual(['Missing']);
+    });
+
+    it('should enforce the embed depth limit', async () => {
+      config.maxEmbedDepth = 1;
+      await writePrompt('outer.md', '![[middle]]');
+      await writePrompt('middle.md', '![[inner]]');
+      await writePrompt('inner.md', 'deep');
+
+      const result = await promptManager.getPrompted('outer');
+
+      expect(result.error?.code).toBe('embed_depth_exceeded');
+    });
+  });
+
+  describe('variables', () => {
+    const sessionPrompt = [
+      '---',
+      'prompt-vars:',
+      '  sessions: { type: number }',
+      '  paid: { type: boolean }',
+      '  start: { type: date }',
+      '  topics: { type: array, options: [grief, work, family] }',
+      '---',
+      '{{sessions}} {{paid}} {{start}} {{topics}}',
+    ].join('\n');
+
+    it('should coerce string values to their declared types', async () => {
+      await writePrompt('session.md', sessionPrompt);
+
+      const result = await promptManager.getPrompted('session', {
+        sessions: '6',
+        paid: 'yes',
+        start: '2026-11-02',
+        topics: 'grief, work',
+      });
+
+      expect(result.content).toBe('6 true 2026-11-02 grief,work');
+      expect(result.warnings).toBeUndefined();
+    });
+
+    it('should warn about invalid values unless strict', async () => {
+      await writePrompt('session.md', sessionPrompt);
+      const variables = {
+        sessions: 'six',
+        paid: 'maybe',
+        start: 'someday',
+        topics: 'grief, money',
+      };
+
+      const lenient = await promptManager.getPrompted('session', variables);
+      expect(lenient.resolved).toBe(true);
+      expect(lenient.warnings).toEqual([
+        "Variable 'sessions': expected number, got string",
+        "Variable 'paid': expected boolean, got string",
+        "Variable 'start': expected valid date, got invalid date: someday",
+        "Variable 'topics': expected one of [grief, work, family], got money",
+      ]);
+
+      const strict = await promptManager.getPrompted('session', variables, {
+        strictVariables: true,
+      });
+      expect(strict.resolved).toBe(false);
+      expect(strict.error?.code).toBe('invalid_variables');
+      expect(strict.error?.details.errors).toEqual(lenient.warnings);
+    });
+  });
+
+  describe('rendering', () => {
+    it('should report variable sources and substitute values once', async () => {
+      await writePrompt(
+        'note.md',
+        [
+          '---',
+          'prompt-vars:',
+          '  client: string',
+          '  tone: { type: string, required: false, default: warm }',
+          '---',
+          '{{client}} / {{tone}} / {{focus:general}} / \\{{client}}',
+        ].join('\n')
+      );
+
+      const result = await promptManager.getPrompted('note', {
+        client: '{{tone}}',
+      });
+
+      expect(result.content).toBe('{{tone}} / warm / general / {{client}}');
+      expect(result.variablesUsed).toEqual({
+        client: { value: '{{tone}}', source: 'user' },
+        tone: { value: 'warm', source: 'default' },
+        focus: { value: 'general', source: 'default' },
+      });
+      expect(result.placeholders?.map(p => p.placeholder)).toEqual([
+        '{{client}}',
+        '{{tone}}',
+        '{{focus:general}}',
+      ]);
+    });
+  });
+
+  describe('defaults', () => {
+    it('should evaluate defaults as templates in dependency order', async () => {
+      await writePrompt(
+        'session.md',
+        [
+          '---',
+          'prompt-vars:',
+          '  client_name: string',
+          '  label: { type: string, required: false, default: "{{title}} (<% year %>)" }',
+          '  title: { type: string, required: false, default: "{{client_name}} session" }',
+          '  year: { type: number, required: false, default: \'tp.date.now("YYYY")\' }',
+          '---',
+          '{{label}}',
+        ].join('\n')
+      );
+
+      const result = await promptManager.getPrompted('session', {
+        client_name: 'Ada',
+      });
+
+      const year = new Date().getFullYear();
+      expect(result.content).toBe(`Ada session (${year})`);
+      expect(result.variablesUsed).toEqual({
+        label: { value: `Ada session (${year})`, source: 'default' },
+      });
+
+      const provided = await promptManager.getPrompted('session', {
+        client_name: 'Ada',
+        title: 'Review',
+      });
+      expect(provided.content).toBe(`Review (${year})`);
+    });
+
+    it('should not mistake tp helpers, properties or strings for variables', async () => {
+      await writePrompt(
+        'dated.md',
+        [
+          '---',
+          'prompt-vars:',
+          '  date: { type: string, required: false, default: "<% tp.date.now(\'YYYY\') %>" }',
+          '  title: { type: string, required: false, default: "<% tp.file.title %>" }',
+          "  label: { type: string, required: false, default: \"<% 'title' + ' ' + date %>\" }",
+          '---',
+          '{{date}} {{title}} {{label}}',
+        ].join('\n')
+      );
+
+      const result = await promptManager.getPrompted('dated');
+
+      const year = new Date().getFullYear();
+      expect(result.content).toBe(`${year} dated title ${year}`);
+    });
+
+    it('should report defaults that reference each other', async () => {
+      await writePrompt(
+        'loop.md',
+        [
+          '---',
+          'prompt-vars:',
+          '  first: { type: string, required: false, default: "{{second}}" }',
+          '  second: { type: string, required: false, default: "<% third %>" }',
+          '  third: { type: string, required: false, default: "{{first | upper}}" }',
+          '---',
+          '{{first}}',
+        ].join('\n')
+      );
+
+      const result = await promptManager.getPrompted('loop');
+
+      expect(result.resolved).toBe(false);
+      expect(result.error?.code).toBe('default_cycle');
+      expect(result.error?.details.cycle).toEqual([
+        'first',
+        'second',
+        'third',
+        'first',
+      ]);
+    });
+  });
+
+  describe('templater', () => {
+    it('should give templates the prompt file and its frontmatter', async () => {
+      await writePrompt(
+        'sessions/intake.md',
+        [
+          '---',
+          'client: Ada',
+          'tags: [client]',
+          '---',
+          '<% tp.frontmatter.client %> <% tp.file.path(true) %> <% tp.file.tags %> #intake',
+          "<% tp.file.last_modified_date('YYYY') %>",
+        ].join('\n')
+      );
+
+      const result = await promptManager.getPrompted('intake');
+
+      expect(result.content).toBe(
+        `Ada prompts/sessions/intake.md #client,#intake #intake\n${new Date().getFullYear()}`
+      );
+    });
+  });
+});
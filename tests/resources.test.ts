@@ -0,0 +1,126 @@
+/**
+ * Tests for vault notes exposed as MCP resources
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ResourceManager } from '../src/resources.js';
+import { VaultIndex } from '../src/vault.js';
+import { ObsidianUtils } from '../src/obsidian.js';
+import type { VaultConfig } from '../src/types.js';
+
+describe('ResourceManager', () => {
+  let testDir: string;
+  let resourceManager: ResourceManager;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(
+      await fs.mkdtemp(join(tmpdir(), 'mcp-resources-'))
+    );
+    await fs.mkdir(join(testDir, 'tasks'));
+    await fs.writeFile(
+      join(testDir, 'tasks', 'Client Intake.md'),
+      '---\ntitle: Intake for Ada\ndescription: First session\n---\n- [ ] Call'
+    );
+    await fs.writeFile(join(testDir, 'notes.txt'), 'Plain notes');
+
+    const config: VaultConfig = {
+      allowedDirectories: [testDir],
+      promptsPath: 'prompts',
+      tasksPath: 'tasks',
+      templatesPath: 'templates',
+      enableObsidianFeatures: true,
+      cachePrompts: false,
+      maxSearchResults: 10,
+    };
+    resourceManager = new ResourceManager(
+      config,
+      new VaultIndex(config, new ObsidianUtils(config))
+    );
+  });
+
+  afterEach(async () => {
+    resourceManager.close();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should list notes as vault:// resources with titles', async () => {
+    const { resources, total } = await resourceManager.listResources(0, 10);
+
+    expect(total).toBe(2);
+    expect(resources).toEqual([
+      {
+        uri: 'vault://notes.txt',
+        name: 'notes.txt',
+        title: 'notes',
+        mimeType: 'text/plain',
+        description: undefined,
+      },
+      {
+        uri: 'vault://tasks/Client%20Intake.md',
+        name: 'tasks/Client Intake.md',
+        title: 'Intake for Ada',
+        mimeType: 'text/markdown',
+        description: 'First session',
+      },
+    ]);
+  });
+
+  it('should offer templates for tasks and prompts', () => {
+    expect(
+      resourceManager.listResourceTemplates().map(t => t.uriTemplate)
+    ).toEqual(['vault://tasks/{name}.md', 'vault://prompts/{name}.md']);
+  });
+
+  it('should read notes and reject URIs outside the vault', async () => {
+    const resource = await resourceManager.readResource(
+      'vault://tasks/Client%20Intake.md'
+    );
+    expect(resource.mimeType).toBe('text/markdown');
+    expect(resource.text).toContain('- [ ] Call');
+
+    await expect(
+      resourceManager.readResource('vault://tasks/Missing.md')
+    ).rejects.toThrow('Resource not found');
+    await expect(
+      resourceManager.readResource('vault://../outside.md')
+    ).rejects.toThrow('outside allowed directories');
+    await expect(
+      resourceManager.readResource('file:///etc/passwd')
+    ).rejects.toThrow('Resource URIs must start with vault://');
+  });
+
+  it('should refuse symlinks that lead outside the vault', async () => {
+    const outside = await fs.realpath(
+      await fs.mkdtemp(join(tmpdir(), 'mcp-outside-'))
+    );
+    await fs.writeFile(join(outside, 'secret.md'), 'Secret');
+    await fs.symlink(join(outside, 'secret.md'), join(testDir, 'leak.md'));
+    await fs.symlink(outside, join(testDir, 'linked'));
+
+    try {
+      await expect(
+        resourceManager.readResource('vault://leak.md')
+      ).rejects.toThrow('links outside allowed directories');
+      await expect(
+        resourceManager.subscribe('vault://linked/new.md', () => {})
+      ).rejects.toThrow('links outside allowed directories');
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('should notify subscribers when a note changes', async () => {
+    const uri = 'vault://tasks/Client%20Intake.md';
+    const updated = new Promise<string>(resolve => {
+      resourceManager.subscribe(uri, resolve);
+    });
+    // Let the watcher start before changing the file
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    await fs.writeFile(join(testDir, 'tasks', 'Client Intake.md'), 'Changed');
+
+    await expect(updated).resolves.toBe(uri);
+  });
+});
@@ -0,0 +1,418 @@
+/**
+ * Tests for TaskManager task creation and checklist handling
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { TaskManager } from '../src/tasks.js';
+import { ObsidianUtils } from '../src/obsidian.js';
+import type { VaultConfig } from '../src/types.js';
+
+describe('TaskManager', () => {
+  let testDir: string;
+  let config: VaultConfig;
+  let taskManager: TaskManager;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(join(tmpdir(), 'mcp-tasks-')));
+
+    config = {
+      allowedDirectories: [testDir],
+      promptsPath: 'prompts',
+      tasksPath: 'tasks',
+      templatesPath: 'templates',
+      enableObsidianFeatures: true,
+      cachePrompts: false,
+      maxSearchResults: 10,
+      templaterLite: true,
+    };
+
+    taskManager = new TaskManager(config, new ObsidianUtils(config));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('createTask', () => {
+    it('should render the Task.md template with checklist and metadata', async () => {
+      await fs.mkdir(join(testDir, 'templates'));
+      await fs.writeFile(
+        join(testDir, 'templates', 'Task.md'),
+        '---\nstatus: open\n---\n# tp.file.title\n\n{{description}}\n\nClient: {{client}}\n\n{{checklist}}\n'
+      );
+
+      const taskPath = await taskManager.createTask(
+        'Marvin: Transcript Indexing',
+        'Index the July sessions',
+        ['Index 2025-07-15 session', 'Review tags'],
+        { client: 'Marvin' }
+      );
+
+      expect(taskPath).toBe(
+        join(testDir, 'tasks', 'Marvin_ Transcript Indexing.md')
+      );
+
+      const content = await fs.readFile(taskPath, 'utf-8');
+      expect(content).toContain('status: open');
+      expect(content).toContain('client: Marvin');
+      expect(content).toContain('# Marvin_ Transcript Indexing');
+      expect(content).toContain('Index the July sessions');
+      expect(content).toContain('Client: Marvin');
+      expect(content).toContain(
+        '- [ ] Index 2025-07-15 session\n- [ ] Review tags'
+      );
+    });
+
+    it('should fall back to a built-in template', async () => {
+      const taskPath = await taskManager.createTask('Plain task', 'Details', [
+        'First step',
+      ]);
+
+      const content = await fs.readFile(taskPath, 'utf-8');
+      expect(content).toBe(
+        '# Plain task\n\nDetails\n\n## Checklist\n\n- [ ] First step\n'
+      );
+    });
+
+    it('should refuse to overwrite an existing task', async () => {
+      await taskManager.createTask('Duplicate', 'first', ['a']);
+
+      await expect(
+        taskManager.createTask('Duplicate', 'second', ['b'])
+      ).rejects.toMatchObject({ code: 'task_exists' });
+
+      const content = await fs.readFile(
+        join(testDir, 'tasks', 'Duplicate.md'),
+        'utf-8'
+      );
+      expect(content).toContain('first');
+    });
+  });
+
+  describe('parseChecklistItems', () => {
+    it('should parse nested checkboxes with source lines', () => {
+      const content = [
+        '---',
+        'status: open',
+        '---',
+        '# Task',
+        '- [ ] Prepare session',
+        '  - [x] Read notes',
+        '  * [ ] Draft questions',
+        '    1. [X] First question',
+        '- [/] Follow up',
+        '\t+ [ ] Tab-indented child',
+        '2) [ ] Numbered item',
+      ].join('\n');
+
+      const items = taskManager['parseChecklistItems'](content);
+
+      expect(items.map(item => item.text)).toEqual([
+        'Prepare session',
+        'Follow up',
+        'Numbered item',
+      ]);
+      expect(items[0].line).toBe(4);
+      expect(items[0].subItems?.map(item => item.text)).toEqual([
+        'Read notes',
+        'Draft questions',
+      ]);
+      expect(items[0].subItems?.[0].completed).toBe(true);
+      expect(items[0].subItems?.[1].subItems?.[0]).toMatchObject({
+        text: 'First question',
+        completed: true,
+        line: 7,
+      });
+      expect(items[1]).toMatchObject({ status: '/', completed: false });
+      expect(items[1].subItems?.[0].text).toBe('Tab-indented child');
+    });
+
+    it('should skip checkboxes inside fenced code blocks', () => {
+      const content = [
+        '- [ ] Real item',
+        '```markdown',
+        '- [ ] Example item',
+        '```',
+        '~~~',
+        '- [x] Another example',
+        '~~~',
+        '- [x] Done item',
+      ].join('\n');
+
+      const items = taskManager['parseChecklistItems'](content);
+
+      expect(items.map(item => [item.text, item.line])).toEqual([
+        ['Real item', 0],
+        ['Done item', 7],
+      ]);
+    });
+  });
+
+  describe('updateTaskProgress', () => {
+    const taskContent = [
+      '---',
+      'status: open',
+      '---',
+      '# Transcript Indexing',
+      '',
+      '- [ ] Index 2025-07-15 session\r',
+      '- [ ] Index 2025-07-22 session',
+      '  - [ ] Review tags   ',
+      '- [x] Set up folder',
+      '',
+    ].join('\n');
+
+    beforeEach(async () => {
+      await fs.mkdir(join(testDir, 'tasks'));
+      await fs.writeFile(join(testDir, 'tasks', 'Indexing.md'), taskContent);
+    });
+
+    it('should update items by number and text, changing only checkboxes', async () => {
+      const progress = await taskManager.updateTaskProgress('Indexing', {
+        'Index 2025-07-15 session': true,
+        3: true,
+        'set up folder': false,
+      });
+
+      const content = await fs.readFile(
+        join(testDir, 'tasks', 'Indexing.md'),
+        'utf-8'
+      );
+      expect(content).toBe(
+        taskContent
+          .replace('- [ ] Index 2025-07-15', '- [x] Index 2025-07-15')
+          .replace('  - [ ] Review', '  - [x] Review')
+          .replace('- [x] Set up', '- [ ] Set up')
+      );
+      expect(progress.completedItems).toBeGreaterThan(0);
+    });
+
+    it('should match item text fuzzily', async () => {
+      await taskManager.updateTaskProgress('Indexing', {
+        'tags review': true,
+      });
+
+      const content = await fs.readFile(
+        join(testDir, 'tasks', 'Indexing.md'),
+        'utf-8'
+      );
+      expect(content).toContain('  - [x] Review tags   ');
+    });
+
+    it('should reject ambiguous text matches', async () => {
+      await expect(
+        taskManager.updateTaskProgress('Indexing', { session: true })
+      ).rejects.toMatchObject({ code: 'ambiguous_checklist_item' });
+    });
+
+    it('should reject unknown tasks and out-of-range items', async () => {
+      await expect(
+        taskManager.updateTaskProgress('Missing', { 1: true })
+      ).rejects.toMatchObject({ code: 'task_not_found' });
+      await expect(
+        taskManager.updateTaskProgress('Indexing', { 9: true })
+      ).rejects.toMatchObject({ code: 'checklist_item_not_found' });
+    });
+  });
+
+  describe('getTaskStatus', () => {
+    beforeEach(async () => {
+      await fs.mkdir(join(testDir, 'tasks'));
+      await fs.writeFile(
+        join(testDir, 'tasks', 'Setup.md'),
+        '- [x] Create folder\n- [ ] Add templates\n'
+      );
+      await fs.writeFile(
+        join(testDir, 'tasks', 'Research.md'),
+        '---\nstatus: done\n---\nNo checklist here\n'
+      );
+      await fs.writeFile(
+        join(testDir, 'tasks', 'review-notes.md'),
+        '- [ ] Read notes\n'
+      );
+      await fs.writeFile(
+        join(testDir, 'tasks', 'Indexing.md'),
+        [
+          '---',
+          'dependencies:',
+          '  - "[[Setup]]"',
+          '  - Research',
+          '  - Missing Task',
+          '  - "[[Review]]"',
+          '---',
+          '- [x] Gather transcripts',
+          '- [ ] Index sessions',
+          '  - [x] Session 1',
+          '  - [ ] Session 2',
+          '  - [ ] Session 3 #blocked',
+          '- [ ] Publish index',
+        ].join('\n')
+      );
+    });
+
+    it('should count nested items and list unchecked leaves as next actions', async () => {
+      const status = await taskManager.getTaskStatus('Indexing', 2);
+
+      expect(status.totalItems).toBe(6);
+      expect(status.completedItems).toBe(2);
+      expect(status.completionPercentage).toBeCloseTo(33.33, 1);
+      expect(status.nextActions).toEqual(['Session 2', 'Publish index']);
+    });
+
+    it('should report blockers from dependencies and #blocked items', async () => {
+      const status = await taskManager.getTaskStatus('Indexing');
+
+      expect(status.blockers).toEqual([
+        "Waiting on 'Setup' (1/2 complete)",
+        "Dependency 'Missing Task' not found",
+        "Dependency 'Review' not found",
+        'Session 3',
+      ]);
+    });
+  });
+
+  describe('linkTaskToPrompt', () => {
+    beforeEach(async () => {
+      await fs.mkdir(join(testDir, 'tasks'));
+      await fs.mkdir(join(testDir, 'prompts'));
+      await fs.writeFile(
+        join(testDir, 'tasks', 'Indexing.md'),
+        '---\n# Task settings\nstatus:   open\ntags: [client, indexing]\n---\n- [ ] Index\n'
+      );
+      await fs.writeFile(
+        join(testDir, 'prompts', 'transcript-indexing.md'),
+        '---\ntitle: Transcript Indexing\naliases:\n  - indexing prompt\ntasks:\n    - task: "[[Other]]"\n      relationship: uses\n---\nBody\n'
+      );
+    });
+
+    it('should add links to both files while preserving YAML formatting', async () => {
+      await taskManager.linkTaskToPrompt(
+        'Indexing',
+        'indexing prompt',
+        'guided-by'
+      );
+
+      const task = await fs.readFile(
+        join(testDir, 'tasks', 'Indexing.md'),
+        'utf-8'
+      );
+      expect(task).toBe(
+        '---\n# Task settings\nstatus:   open\ntags: [client, indexing]\nprompts:\n  - prompt: "[[transcript-indexing]]"\n    relationship: guided-by\n---\n- [ ] Index\n'
+      );
+
+      const prompt = await fs.readFile(
+        join(testDir, 'prompts', 'transcript-indexing.md'),
+        'utf-8'
+      );
+      expect(prompt).toContain(
+        'tasks:\n    - task: "[[Other]]"\n      relationship: uses\n    - task: "[[Indexing]]"\n      relationship: guided-by\n---'
+      );
+    });
+
+    it('should not duplicate existing links', async () => {
+      await taskManager.linkTaskToPrompt('Indexing', 'transcript-indexing');
+      await taskManager.linkTaskToPrompt('Indexing', 'transcript-indexing');
+
+      const task = await fs.readFile(
+        join(testDir, 'tasks', 'Indexing.md'),
+        'utf-8'
+      );
+      expect(task.match(/transcript-indexing/g)).toHaveLength(1);
+    });
+
+    it('should find tasks that use a prompt', async () => {
+      await taskManager.linkTaskToPrompt('Indexing', 'transcript-indexing');
+
+      const tasks = await taskManager.findTasksForPrompt('indexing prompt');
+
+      expect(tasks).toEqual([
+        {
+          task: 'Indexing',
+          path: join(testDir, 'tasks', 'Indexing.md'),
+          relationship: 'uses',
+        },
+      ]);
+    });
+
+    it('should link same-named prompts by path', async () => {
+      await fs.mkdir(join(testDir, 'prompts', 'intake'));
+      await fs.mkdir(join(testDir, 'prompts', 'ethics'));
+      await fs.writeFile(join(testDir, 'prompts', 'intake', 'session.md'), '');
+      await fs.writeFile(join(testDir, 'prompts', 'ethics', 'session.md'), '');
+      await fs.writeFile(join(testDir, 'tasks', 'Client A.md'), '- [ ] Call');
+
+      await taskManager.linkTaskToPrompt('Client A', 'intake/session');
+
+      const task = await fs.readFile(
+        join(testDir, 'tasks', 'Client A.md'),
+        'utf-8'
+      );
+      expect(task).toContain('prompt: "[[prompts/intake/session]]"');
+      expect(await taskManager.findTasksForPrompt('ethics/session')).toEqual(
+        []
+      );
+      expect(
+        (await taskManager.findTasksForPrompt('intake/session')).map(
+          result => result.task
+        )
+      ).toEqual(['Client A']);
+    });
+  });
+
+  describe('findTaskByName', () => {
+    beforeEach(async () => {
+      await fs.mkdir(join(testDir, 'tasks', 'clients'), { recursive: true });
+      await fs.writeFile(
+        join(testDir, 'tasks', 'Marvin-Transcript-Indexing.md'),
+        '---\naliases: [marvin index]\n---\n- [ ] Index\n'
+      );
+      await fs.writeFile(
+        join(testDir, 'tasks', 'clients', 'Intake Review.md'),
+        '---\ntitle: Quarterly Intake Review\n---\n'
+      );
+      await fs.writeFile(
+        join(testDir, 'tasks', 'Session Notes Alpha.md'),
+        '# Alpha\n'
+      );
+      await fs.writeFile(
+        join(testDir, 'tasks', 'Session Notes Beta.md'),
+        '# Beta\n'
+      );
+    });
+
+    const find = (name: string) => taskManager['findTaskByName'](name);
+
+    it('should resolve by filename, alias, fuzzy filename and title', async () => {
+      expect(await find('marvin-transcript-indexing')).toBe(
+        join(testDir, 'tasks', 'Marvin-Transcript-Indexing.md')
+      );
+      expect(await find('clients/intake review')).toBe(
+        join(testDir, 'tasks', 'clients', 'Intake Review.md')
+      );
+      expect(await find('Marvin Index')).toBe(
+        join(testDir, 'tasks', 'Marvin-Transcript-Indexing.md')
+      );
+      expect(await find('transcript indexing')).toBe(
+        join(testDir, 'tasks', 'Marvin-Transcript-Indexing.md')
+      );
+      expect(await find('Quarterly')).toBe(
+        join(testDir, 'tasks', 'clients', 'Intake Review.md')
+      );
+      expect(await find('zzzz')).toBeNull();
+    });
+
+    it('should return candidates instead of guessing between close matches', async () => {
+      await expect(find('session notes')).rejects.toMatchObject({
+        code: 'ambiguous_task',
+        details: {
+          candidates: expect.arrayContaining([
+            expect.objectContaining({ name: 'Session Notes Alpha' }),
+            expect.objectContaining({ name: 'Session Notes Beta' }),
+          ]),
+        },
+      });
+    });
+  });
+});
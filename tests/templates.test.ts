@@ -0,0 +1,318 @@
+/**
+ * Tests for TemplateProcessor Templater processing
+ */
+
+import { TemplateProcessor } from '../src/templates.js';
+import type { VaultConfig } from '../src/types.js';
+
+describe('TemplateProcessor', () => {
+  const config: VaultConfig = {
+    allowedDirectories: ['/vault'],
+    promptsPath: 'prompts',
+    tasksPath: 'tasks',
+    templatesPath: 'templates',
+    enableObsidianFeatures: true,
+    cachePrompts: false,
+    maxSearchResults: 10,
+    templaterLite: true,
+  };
+  const processor = new TemplateProcessor(config);
+  const currentDate = new Date(2026, 9, 19, 9, 5);
+
+  describe('control flow', () => {
+    it('should render if/else branches from variables', () => {
+      const template = [
+        "<% if (session_type === 'intake') { -%>",
+        'Welcome, {{client}}.',
+        "<% } else if (session_type === 'review') { -%>",
+        'Review with <% client.toUpperCase() %>.',
+        '<% } else { -%>',
+        'Session <% number + 1 %>.',
+        '<% } -%>',
+        'Done',
+      ].join('\n');
+
+      const render = (variables: Record<string, any>) =>
+        processor.processTemplate(template, { client: 'Ada', ...variables });
+
+      expect(render({ session_type: 'intake' })).toBe('Welcome, Ada.\nDone');
+      expect(render({ session_type: 'review' })).toBe('Review with ADA.\nDone');
+      expect(render({ session_type: 'follow-up', number: 4 })).toBe(
+        'Session 5.\nDone'
+      );
+    });
+
+    it('should loop over arrays with nested conditions', () => {
+      const template = [
+        'Goals:',
+        '<% for (const goal of goals) { -%>',
+        '- <% goal %><% if (goal === done) { %> ✓<% } %>',
+        '<% } -%>',
+        '<%* if (goals.length === 0) { %>None<%* } %>',
+      ].join('\n');
+
+      expect(
+        processor.processTemplate(template, {
+          goals: ['sleep', 'work'],
+          done: 'work',
+        })
+      ).toBe('Goals:\n- sleep\n- work ✓\n');
+      expect(processor.processTemplate(template, { goals: [] })).toBe(
+        'Goals:\nNone'
+      );
+      expect(
+        processor.processTemplate('Goals:  \n<%_ goals.length _%>\n  items', {
+          goals: ['sleep'],
+        })
+      ).toBe('Goals:1items');
+    });
+
+    it('should run assignment blocks and expose tp helpers', () => {
+      const template = [
+        "<%* let label = tp.file.title + ' (' + (count ?? 0) + ')'",
+        'tR += label; count = 2 %>',
+        '<% count > 1 ? "many" : "one" %> on <% tp.date.now("DD.MM.YYYY") %>',
+      ].join('\n');
+
+      expect(
+        processor.processTemplate(
+          template,
+          { count: 1 },
+          { currentDate },
+          '/vault/prompts/Intake.md'
+        )
+      ).toBe('Intake (1)\nmany on 19.10.2026');
+    });
+
+    it('should keep an unclosed <% as text', () => {
+      expect(
+        processor.processTemplate('<% name %> scored <%50 of {{name}}', {
+          name: 'Ada',
+        })
+      ).toBe('Ada scored <%50 of Ada');
+    });
+
+    it('should reject code outside the whitelisted grammar', () => {
+      const render = (template: string) => () =>
+        processor.processTemplate(template, { name: 'Ada' });
+
+      expect(render('<%* console.log(name) %>')).toThrow(
+        'Only assignments are allowed'
+      );
+      expect(render('<% name.constructor %>')).toThrow(
+        "Access to 'constructor' is not allowed"
+      );
+      expect(render('<% name.at(0) %>')).toThrow('name.at is not a function');
+      expect(render("<% 'x'.repeat(500000000).split('') %>")).toThrow(
+        'would build a string longer than 1000000 characters'
+      );
+      expect(render('<% name.padEnd(2000000) %>')).toThrow('name.padEnd would');
+      expect(render('<% x => x %>')).toThrow('Template syntax error on line 1');
+      expect(render('Hi\n<% if (name) { %>open')).toThrow(
+        'Template syntax error on line 2: Unclosed if block'
+      );
+      expect(render('<% for (c of name) { %><% } %>')).toThrow(
+        'Cannot loop over name: not an array'
+      );
+    });
+  });
+
+  describe('tp helpers', () => {
+    const context = {
+      currentDate,
+      file: {
+        path: '/vault/sessions/Ada/Intake.md',
+        frontmatter: { client: 'Ada', 'session type': 'intake' },
+        tags: ['client', '#counseling/intake'],
+        created: new Date(2026, 0, 2, 8, 30),
+        modified: new Date(2026, 9, 18, 17, 45),
+      },
+    };
+    const render = (template: string) =>
+      processor.processTemplate(template, {}, context);
+
+    it('should offset, shift and name dates', () => {
+      expect(
+        render(
+          [
+            '<% tp.date.now("YYYY-MM-DD", 7) %>',
+            '<% tp.date.now("YYYY-MM-DD", "-P1M") %>',
+            '<% tp.date.now("DD MMM YYYY", 1, "30.01.2026", "DD.MM.YYYY") %>',
+            '<% tp.date.yesterday() %> <% tp.date.tomorrow("dddd") %>',
+            '<% tp.date.weekday("ddd D", 0) %> <% tp.date.weekday("ddd D", 6) %>',
+            '<% tp.date.weekday("YYYY-MM-DD", 7, "2026-10-25") %>',
+          ].join('\n')
+        )
+      ).toBe(
+        [
+          '2026-10-26',
+          '2026-09-19',
+          '31 Jan 2026',
+          '2026-10-18 Tuesday',
+          'Mon 19 Sun 25',
+          '2026-10-26',
+        ].join('\n')
+      );
+    });
+
+    it('should expose the file and its frontmatter', () => {
+      expect(
+        render(
+          [
+            '<% tp.file.title %> in <% tp.file.folder() %> (<% tp.file.folder(true) %>)',
+            '<% tp.file.path(true) %> <% tp.file.path() %>',
+            '<% tp.file.creation_date() %> / <% tp.file.last_modified_date("DD.MM") %>',
+            '<% tp.file.tags.join(" ") %>',
+            '<% tp.frontmatter.client %> <% tp.frontmatter["session type"] %>',
+          ].join('\n')
+        )
+      ).toBe(
+        [
+          'Intake in Ada (sessions/Ada)',
+          'sessions/Ada/Intake.md /vault/sessions/Ada/Intake.md',
+          '2026-01-02 08:30 / 18.10',
+          '#client #counseling/intake',
+          'Ada intake',
+        ].join('\n')
+      );
+    });
+
+    it('should resolve bare tp references outside tags', () => {
+      expect(
+        render(
+          'date: tp.date.now("YYYY-MM-DD", -1)\nclient: tp.frontmatter.client\nkeep: tp.frontmatter.missing'
+        )
+      ).toBe('date: 2026-10-18\nclient: Ada\nkeep: tp.frontmatter.missing');
+    });
+
+    it('should leave Markdown emphasis after bare tp references', () => {
+      expect(
+        render('_Generated from tp.file.title_ on *tp.date.today()*')
+      ).toBe('_Generated from Intake_ on *2026-10-19*');
+    });
+  });
+
+  describe('placeholders', () => {
+    it('should keep colons in defaults and honour escaped braces', () => {
+      expect(
+        processor.processTemplate(
+          'At {{time:09:30}} see {{link:https://tam.buzz/a?b=c}} \\{{literal}} {{name}}',
+          {}
+        )
+      ).toBe('At 09:30 see https://tam.buzz/a?b=c {{literal}} {{name}}');
+    });
+
+    it('should resolve tp references in defaults but not in values', () => {
+      expect(
+        processor.processTemplate(
+          '{{session_date:tp.date.now()}} at {{when:tp.date.now("HH:mm")}} {{note}}',
+          { note: 'tp.date.now()' },
+          { currentDate }
+        )
+      ).toBe('2026-10-19 at 09:05 tp.date.now()');
+    });
+
+    it('should apply filters in order', () => {
+      const content = processor.processTemplate(
+        [
+          '{{client_name | upper}}',
+          '{{goals | bullets}}',
+          '{{session_date | date:"DD MMM YYYY"}}',
+          "{{notes | default:'n/a' | upper}}",
+          '{{goals | join:" & "}}',
+          "{{title:Ada's plan | capitalize}}",
+        ].join('\n'),
+        {
+          client_name: 'Ada',
+          goals: ['sleep', 'work'],
+          session_date: '2026-10-19',
+        }
+      );
+
+      expect(content).toBe(
+        [
+          'ADA',
+          '- sleep\n- work',
+          '19 Oct 2026',
+          'N/A',
+          'sleep & work',
+          "Ada's plan",
+        ].join('\n')
+      );
+    });
+
+    it('should support custom filters and reject unknown ones', () => {
+      const custom = new TemplateProcessor(config);
+      custom.registerFilter('initials', value =>
+        String(value)
+          .split(' ')
+          .map(word => word[0])
+          .join('')
+      );
+
+      expect(
+        custom.processTemplate('{{client | initials}}', {
+          client: 'Ada Lovelace',
+        })
+      ).toBe('AL');
+      expect(() =>
+        custom.processTemplate('{{client | shout}}', { client: 'Ada' })
+      ).toThrow("Unknown filter 'shout' in {{client | shout}}");
+    });
+  });
+
+  describe('render', () => {
+    it('should report each placeholder with the source of its value', () => {
+      const result = processor.render(
+        [
+          '<%* let greeting = "Hello" %><% if (formal) { %>Dear<% } %>',
+          '{{greeting}} {{client}}, {{sessions}} sessions',
+          '<% for (const goal of goals) { %>{{goal | upper}} <% } %>',
+          '{{notes:none}} {{mood | default:"calm"}} {{missing}}',
+        ].join('\n'),
+        {
+          variables: {
+            client: { name: 'client', value: 'Ada', source: 'user' },
+            formal: { name: 'formal', value: true, source: 'user' },
+            goals: { name: 'goals', value: ['sleep'], source: 'user' },
+            sessions: { name: 'sessions', value: 6, source: 'default' },
+          },
+        }
+      );
+
+      expect(result.content).toBe(
+        'Dear\nHello Ada, 6 sessions\nSLEEP \nnone calm {{missing}}'
+      );
+      expect(result.variablesUsed).toEqual({
+        formal: { value: true, source: 'user' },
+        greeting: { value: 'Hello', source: 'computed' },
+        client: { value: 'Ada', source: 'user' },
+        sessions: { value: 6, source: 'default' },
+        goals: { value: ['sleep'], source: 'user' },
+        goal: { value: 'sleep', source: 'computed' },
+        notes: { value: 'none', source: 'default' },
+        mood: { value: 'calm', source: 'default' },
+      });
+      expect(result.placeholders[3]).toEqual({
+        placeholder: '{{goal | upper}}',
+        name: 'goal',
+        filters: ['upper'],
+        resolved: true,
+        value: 'SLEEP',
+        source: 'computed',
+      });
+      expect(result.missingVariables).toEqual(['missing']);
+    });
+
+    it('should never re-scan substituted values', () => {
+      expect(
+        processor.processTemplate(
+          '{{a}} <% b %> \\{{a}} tp.file.title',
+          { a: '{{b}} <% b %>', b: 'tp.date.now() {{a}}' },
+          {},
+          '/vault/Note.md'
+        )
+      ).toBe('{{b}} <% b %> tp.date.now() {{a}} {{a}} Note');
+    });
+  });
+});
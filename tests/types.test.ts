@@ -58,4 +58,52 @@ This is a test document with frontmatter.`;
       '# Test Document\n\nThis is a test document with frontmatter.'
     );
   });
+
+  it('should append frontmatter list items without reformatting YAML', () => {
+    const config: VaultConfig = {
+      allowedDirectories: ['/test'],
+      promptsPath: 'prompts',
+      tasksPath: 'tasks',
+      templatesPath: 'templates',
+      enableObsidianFeatures: true,
+      cachePrompts: false,
+      maxSearchResults: 10,
+    };
+    const obsidianUtils = new ObsidianUtils(config);
+    const item = { prompt: '[[intake]]', relationship: 'uses' };
+
+    expect(obsidianUtils.addFrontmatterListItem('Body', 'prompts', item)).toBe(
+      '---\nprompts:\n  - prompt: "[[intake]]"\n    relationship: uses\n---\nBody'
+    );
+
+    expect(
+      obsidianUtils.addFrontmatterListItem(
+        '---\ntitle:  Kept\nprompts: "[[old]]"\nz: 1\n---\nBody',
+        'prompts',
+        item
+      )
+    ).toBe(
+      '---\ntitle:  Kept\nprompts:\n  - "[[old]]"\n  - prompt: "[[intake]]"\n    relationship: uses\nz: 1\n---\nBody'
+    );
+
+    // Comments and existing scalars are kept exactly as written
+    expect(
+      obsidianUtils.addFrontmatterListItem(
+        '---\nprompts: # linked prompts\n  - "[[old]]"\n---\nBody',
+        'prompts',
+        item
+      )
+    ).toBe(
+      '---\nprompts: # linked prompts\n  - "[[old]]"\n  - prompt: "[[intake]]"\n    relationship: uses\n---\nBody'
+    );
+    expect(
+      obsidianUtils.addFrontmatterListItem(
+        "---\nprompts: [2025-09-03, 'a, b', {prompt: x}] # dated\n---\nBody",
+        'prompts',
+        item
+      )
+    ).toBe(
+      '---\nprompts: # dated\n  - 2025-09-03\n  - \'a, b\'\n  - {prompt: x}\n  - prompt: "[[intake]]"\n    relationship: uses\n---\nBody'
+    );
+  });
 });
@@ -0,0 +1,145 @@
+/**
+ * Tests for the in-memory vault index
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { VaultIndex } from '../src/vault.js';
+import { ObsidianUtils } from '../src/obsidian.js';
+import type { VaultConfig } from '../src/types.js';
+
+describe('VaultIndex', () => {
+  let testDir: string;
+  let promptsDir: string;
+  let config: VaultConfig;
+  let index: VaultIndex;
+
+  // Watcher events arrive asynchronously, so poll until the index agrees
+  const waitForNames = async (expected: string[]) => {
+    let names: string[] = [];
+    for (let attempt = 0; attempt < 40; attempt++) {
+      names = (await index.getEntries(promptsDir)).map(entry => entry.name);
+      if (JSON.stringify(names) === JSON.stringify(expected)) break;
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    return names;
+  };
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(join(tmpdir(), 'mcp-vault-')));
+    promptsDir = join(testDir, 'prompts');
+    await fs.mkdir(join(promptsDir, 'nested'), { recursive: true });
+    await fs.mkdir(join(testDir, '.obsidian'));
+    await fs.writeFile(
+      join(promptsDir, 'intake.md'),
+      '---\ntitle: Client Intake\naliases: intake form\ntags: [client]\n---\nBody'
+    );
+    await fs.writeFile(join(promptsDir, 'nested', 'deep.md'), 'Deep');
+    await fs.writeFile(join(testDir, '.obsidian', 'workspace.json'), '{}');
+
+    config = {
+      allowedDirectories: [testDir],
+      promptsPath: 'prompts',
+      tasksPath: 'tasks',
+      templatesPath: 'templates',
+      enableObsidianFeatures: true,
+      cachePrompts: true,
+      maxSearchResults: 10,
+    };
+    index = new VaultIndex(config, new ObsidianUtils(config));
+  });
+
+  afterEach(async () => {
+    index.close();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should index parsed frontmatter for the notes in a folder', async () => {
+    const entries = await index.getEntries(promptsDir);
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      name: 'intake.md',
+      relativePath: 'prompts/intake.md',
+      title: 'Client Intake',
+      aliases: ['intake form'],
+      tags: ['client'],
+      content: 'Body',
+    });
+    expect(await index.getEntries(join(testDir, '.obsidian'))).toEqual([]);
+  });
+
+  it('should pick up created, changed and deleted notes', async () => {
+    await index.getEntries(promptsDir);
+
+    await fs.writeFile(join(promptsDir, 'session.md'), 'First');
+    expect(await waitForNames(['intake.md', 'session.md'])).toEqual([
+      'intake.md',
+      'session.md',
+    ]);
+
+    await fs.writeFile(
+      join(promptsDir, 'session.md'),
+      '---\naliases: [notes]\n---\nSecond'
+    );
+    let session;
+    for (let attempt = 0; attempt < 40 && !session; attempt++) {
+      const entries = await index.getEntries(promptsDir);
+      session = entries.find(
+        entry => entry.name === 'session.md' && entry.content === 'Second'
+      );
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    expect(session?.aliases).toEqual(['notes']);
+
+    await fs.rm(join(promptsDir, 'intake.md'));
+    expect(await waitForNames(['session.md'])).toEqual(['session.md']);
+  });
+
+  it('should not index symlinks to files outside the vault', async () => {
+    await waitForNames(['intake.md']);
+    const outside = await fs.realpath(
+      await fs.mkdtemp(join(tmpdir(), 'mcp-outside-'))
+    );
+    await fs.writeFile(join(outside, 'secret.md'), 'Secret');
+
+    try {
+      await fs.symlink(join(outside, 'secret.md'), join(promptsDir, 'leak.md'));
+      await fs.writeFile(join(promptsDir, 'session.md'), 'New');
+
+      expect(await waitForNames(['intake.md', 'session.md'])).toEqual([
+        'intake.md',
+        'session.md',
+      ]);
+      expect(await index.listFiles()).not.toContain('prompts/leak.md');
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('should list every vault file, attachments included', async () => {
+    await fs.writeFile(join(promptsDir, 'diagram.png'), '');
+
+    const expected = [
+      'prompts/diagram.png',
+      'prompts/intake.md',
+      'prompts/nested/deep.md',
+    ];
+    expect(await index.listFiles()).toEqual(expected);
+
+    config.cachePrompts = false;
+    expect(await index.listFiles()).toEqual(expected);
+  });
+
+  it('should read folders fresh when caching is disabled', async () => {
+    config.cachePrompts = false;
+    await index.getEntries(promptsDir);
+
+    await fs.writeFile(join(promptsDir, 'session.md'), 'New');
+
+    const names = (await index.getEntries(promptsDir)).map(entry => entry.name);
+    expect(names).toEqual(['intake.md', 'session.md']);
+    expect(await index.getEntries(join(testDir, 'missing'))).toEqual([]);
+  });
+});